@@ -0,0 +1,130 @@
+import { AvlIntervalTree, Interval } from './avl-interval-tree';
+
+describe('AvlIntervalTree', () => {
+    const createTree = (): AvlIntervalTree<number, string> => {
+        const tree = new AvlIntervalTree<number, string>();
+        tree.insert({ start: 10, end: 20 }, 'a');
+        tree.insert({ start: 5, end: 8 }, 'b');
+        tree.insert({ start: 15, end: 40 }, 'c');
+        tree.insert({ start: 30, end: 35 }, 'd');
+        tree.insert({ start: 0, end: 1 }, 'e');
+        return tree;
+    };
+
+    const values = (entries: Iterable<[Interval<number>, string]>): string[] =>
+        Array.from(entries).map(([, value]) => value);
+
+    it('initializes with zero size', () => {
+        const tree = new AvlIntervalTree<number, string>();
+        expect(tree.size).toBe(0);
+        expect(Array.from(tree.overlapping(1))).toEqual([]);
+    });
+
+    it('iterates in order of interval start', () => {
+        expect(values(createTree())).toEqual(['e', 'b', 'a', 'c', 'd']);
+    });
+
+    it('finds the intervals that overlap a point', () => {
+        const tree = createTree();
+        expect(values(tree.overlapping(17))).toEqual(['a', 'c']);
+        expect(values(tree.overlapping(8))).toEqual(['b']);
+        expect(values(tree.overlapping(9))).toEqual([]);
+        expect(values(tree.overlapping(41))).toEqual([]);
+    });
+
+    it('finds the intervals that overlap a range', () => {
+        const tree = createTree();
+        expect(values(tree.overlapping({ start: 1, end: 5 }))).toEqual(['e', 'b']);
+        expect(values(tree.overlapping({ start: 21, end: 29 }))).toEqual(['c']);
+        expect(values(tree.overlapping({ start: -10, end: 100 }))).toEqual(['e', 'b', 'a', 'c', 'd']);
+    });
+
+    it('checks for any overlap', () => {
+        const tree = createTree();
+        expect(tree.anyOverlap({ start: 2, end: 4 })).toBe(false);
+        expect(tree.anyOverlap({ start: 2, end: 5 })).toBe(true);
+        expect(tree.anyOverlap({ start: 41, end: 50 })).toBe(false);
+    });
+
+    it('keeps duplicate intervals', () => {
+        const tree = new AvlIntervalTree<number, string>();
+        tree.insert({ start: 1, end: 2 }, 'a');
+        tree.insert({ start: 1, end: 2 }, 'b');
+
+        expect(tree.size).toBe(2);
+        expect(values(tree.overlapping(2))).toEqual(['a', 'b']);
+        expect(tree.delete({ start: 1, end: 2 })).toBe(true);
+        expect(values(tree)).toEqual(['b']);
+        expect(tree.delete({ start: 1, end: 3 })).toBe(false);
+    });
+
+    it('deletes nodes', () => {
+        const tree = createTree();
+        const node = tree.insert({ start: 12, end: 50 }, 'f');
+        expect(values(tree.overlapping(45))).toEqual(['f']);
+
+        tree.deleteNode(node);
+        expect(values(tree.overlapping(45))).toEqual([]);
+        expect(tree.size).toBe(5);
+
+        tree.clear();
+        expect(tree.size).toBe(0);
+    });
+
+    it('throws an error when the tree is modified during a query', () => {
+        const tree = createTree();
+        expect(() => {
+            for (const [interval] of tree.overlapping({ start: 0, end: 100 })) {
+                tree.delete(interval);
+            }
+        }).toThrowError('Tree was modified during iteration');
+    });
+
+    it('rejects intervals that end before they start', () => {
+        expect(() => new AvlIntervalTree<number, string>().insert({ start: 2, end: 1 }, 'a')).toThrowError(
+            'Invalid interval: start 2 comes after end 1'
+        );
+    });
+
+    it('rejects query ranges that end before they start', () => {
+        const tree = createTree();
+        expect(() => tree.overlapping({ start: 2, end: 1 })).toThrowError(
+            'Invalid interval: start 2 comes after end 1'
+        );
+        expect(() => tree.anyOverlap({ start: 2, end: 1 })).toThrowError('Invalid interval: start 2 comes after end 1');
+    });
+
+    it('matches a linear scan with random intervals', () => {
+        const tree = new AvlIntervalTree<number, number>();
+        const intervals: Interval<number>[] = [];
+        for (let i = 0; i < 300; i += 1) {
+            const start = Math.floor(Math.random() * 1000);
+            const interval = { start, end: start + Math.floor(Math.random() * 50) };
+            intervals.push(interval);
+            tree.insert(interval, i);
+        }
+
+        for (let i = 0; i < 50; i += 1) {
+            const start = Math.floor(Math.random() * 1000);
+            const range = { start, end: start + Math.floor(Math.random() * 20) };
+            const expected = intervals
+                .map((interval, index) => ({ interval, index }))
+                .filter(({ interval }) => interval.start <= range.end && interval.end >= range.start)
+                .map(({ index }) => index)
+                .sort((a, b) => a - b);
+            const actual = Array.from(tree.overlapping(range))
+                .map(([, index]) => index)
+                .sort((a, b) => a - b);
+            expect(actual).toEqual(expected);
+        }
+    });
+
+    it('uses the compare function', () => {
+        const tree = new AvlIntervalTree<string, number>((a, b) => a.localeCompare(b));
+        tree.insert({ start: 'b', end: 'd' }, 1);
+        tree.insert({ start: 'a', end: 'b' }, 2);
+
+        expect(Array.from(tree.overlapping('c')).map(([, value]) => value)).toEqual([1]);
+        expect(Array.from(tree.overlapping('b')).map(([, value]) => value)).toEqual([2, 1]);
+    });
+});
@@ -0,0 +1,146 @@
+import { Augmentation, AvlTree, CompareFunction, defaultCompareFunction } from './avl-tree';
+import { checkModificationCount } from './avl-tree-iterator';
+import { AvlTreeNode } from './avl-tree-node';
+
+/**
+ * A closed interval: both the start and the end are part of it.
+ */
+export interface Interval<T> {
+    readonly start: T;
+    readonly end: T;
+}
+
+/**
+ * An interval tree, which finds the intervals that overlap a point or another interval.
+ * It is an AVL tree ordered by interval start, augmented with the greatest end point of each subtree.
+ * The same interval may be inserted multiple times.
+ */
+export class AvlIntervalTree<T = any, V = any> {
+    private readonly tree: AvlTree<Interval<T>, V>;
+
+    /**
+     * Creates an empty interval tree.
+     * @param compareFunction A comparison function for the end points, that enforces a total ordering:
+     *  i.e. if fn(a, b) < 0 then fn(b, a) > 0.
+     */
+    constructor(private readonly compareFunction: CompareFunction<T> = defaultCompareFunction) {
+        const maxEnd: Augmentation<Interval<T>, V, T | undefined> = {
+            combine: (a, b) => (a === undefined || (b !== undefined && compareFunction(b, a) > 0) ? b : a),
+            identity: undefined,
+            fromNode: interval => interval.end
+        };
+        this.tree = new AvlTree<Interval<T>, V>(
+            (a, b) => compareFunction(a.start, b.start) || compareFunction(a.end, b.end),
+            { duplicates: 'allow', augment: maxEnd }
+        );
+    }
+
+    /**
+     * The number of intervals in the tree.
+     */
+    get size(): number {
+        return this.tree.size;
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'AvlIntervalTree';
+    }
+
+    clear(): void {
+        this.tree.clear();
+    }
+
+    /**
+     * Inserts an interval into the tree.
+     * @param interval The interval, of which the start may not come after the end
+     * @param value The value attached to the interval
+     * @returns The tree node holding the interval
+     */
+    insert(interval: Interval<T>, value: V): AvlTreeNode<Interval<T>, V> {
+        this.checkInterval(interval);
+        return this.tree.insert(interval, value) as AvlTreeNode<Interval<T>, V>;
+    }
+
+    /**
+     * Removes an interval from the tree. If the interval was inserted multiple times, only one is removed.
+     * @param interval The interval to remove
+     * @returns True if the interval was found and removed, false otherwise.
+     */
+    delete(interval: Interval<T>): boolean {
+        return this.tree.delete(interval);
+    }
+
+    /**
+     * Removes a node from the tree.
+     * @param node The node to remove, as returned by `insert`.
+     */
+    deleteNode(node: AvlTreeNode<Interval<T>, V>): void {
+        this.tree.deleteNode(node);
+    }
+
+    /**
+     * Finds the intervals that overlap a point or a range, ordered by their start.
+     * Runs in O((m + 1) log n) for m overlapping intervals, as finding each of them may take a descent of its own.
+     * Throws an error if the tree is modified during the iteration.
+     * @param query A point, or a range (inclusive) of which the start may not come after the end
+     */
+    overlapping(query: T | Interval<T>): Generator<[Interval<T>, V]> {
+        const range = isInterval(query) ? query : { start: query, end: query };
+        this.checkInterval(range);
+        return this.iterateOverlapping(range);
+    }
+
+    /**
+     * Checks if any interval overlaps a range, in O(log n).
+     * @param range The range (inclusive)
+     * @returns True if at least one interval overlaps the range
+     */
+    anyOverlap(range: Interval<T>): boolean {
+        return !this.overlapping(range).next().done;
+    }
+
+    /**
+     * Returns an iterator for the intervals and their values, ordered by their start.
+     * Usable with the 'for ... of' syntax.
+     */
+    [Symbol.iterator](): Generator<[Interval<T>, V]> {
+        return this.tree[Symbol.iterator]();
+    }
+
+    private checkInterval(interval: Interval<T>): void {
+        if (this.compareFunction(interval.start, interval.end) > 0) {
+            throw new Error(`Invalid interval: start ${interval.start} comes after end ${interval.end}`);
+        }
+    }
+
+    private *iterateOverlapping(range: Interval<T>): Generator<[Interval<T>, V]> {
+        const modificationCount = this.tree.modificationCount;
+        for (const entry of this.overlappingInSubtree(this.tree.root, range)) {
+            yield entry;
+            checkModificationCount(this.tree, modificationCount);
+        }
+    }
+
+    private *overlappingInSubtree(
+        node: AvlTreeNode<Interval<T>, V> | undefined,
+        range: Interval<T>
+    ): Generator<[Interval<T>, V]> {
+        // Skip subtrees in which all intervals end before the range starts
+        if (!node || this.compareFunction(node.aggregate as T, range.start) < 0) {
+            return;
+        }
+        yield* this.overlappingInSubtree(node.left, range);
+
+        // Intervals in the right subtree start after this one, so they can only overlap if this one starts in time
+        if (this.compareFunction(node.key.start, range.end) <= 0) {
+            if (this.compareFunction(node.key.end, range.start) >= 0) {
+                yield [node.key, node.value];
+            }
+            yield* this.overlappingInSubtree(node.right, range);
+        }
+    }
+}
+
+function isInterval<T>(query: T | Interval<T>): query is Interval<T> {
+    return typeof query === 'object' && query !== null && 'start' in query && 'end' in query;
+}
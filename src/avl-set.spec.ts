@@ -0,0 +1,79 @@
+import { AvlSet } from './avl-set';
+
+describe('AvlSet', () => {
+    it('initializes with zero size', () => {
+        const set = new AvlSet<number>();
+        expect(set.size).toBe(0);
+        expect(set.min()).toBeUndefined();
+        expect(set.max()).toBeUndefined();
+    });
+
+    it('adds values once', () => {
+        const set = new AvlSet<number>();
+        set.add(3).add(1).add(2).add(3);
+
+        expect(set.size).toBe(3);
+        expect(Array.from(set)).toEqual([1, 2, 3]);
+    });
+
+    it('checks and deletes values', () => {
+        const set = AvlSet.from([5, 1, 3]);
+
+        expect(set.has(3)).toBe(true);
+        expect(set.delete(3)).toBe(true);
+        expect(set.delete(3)).toBe(false);
+        expect(set.has(3)).toBe(false);
+        expect(set.size).toBe(2);
+
+        set.clear();
+        expect(set.size).toBe(0);
+    });
+
+    it('can be used as a Set', () => {
+        const fillSet = (set: Set<string>): Set<string> => set.add('b').add('a').add('b');
+
+        const set = fillSet(new AvlSet<string>());
+
+        expect(Array.from(set.keys())).toEqual(['a', 'b']);
+        expect(Array.from(set.values())).toEqual(['a', 'b']);
+        expect(Array.from(set.entries())).toEqual([
+            ['a', 'a'],
+            ['b', 'b']
+        ]);
+        expect(Object.prototype.toString.call(set)).toBe('[object AvlSet]');
+
+        const iter = jest.fn();
+        set.forEach(iter);
+        expect(iter).toHaveBeenCalledTimes(2);
+        expect(iter).toHaveBeenNthCalledWith(1, 'a', 'a', set);
+    });
+
+    it('finds values by order', () => {
+        const set = AvlSet.from([40, 10, 30, 20]);
+
+        expect(set.min()).toBe(10);
+        expect(set.max()).toBe(40);
+        expect(set.floor(25)).toBe(20);
+        expect(set.ceiling(25)).toBe(30);
+        expect(set.floor(20)).toBe(20);
+        expect(set.lower(20)).toBe(10);
+        expect(set.higher(20)).toBe(30);
+        expect(set.lower(10)).toBeUndefined();
+        expect(set.at(2)).toBe(30);
+        expect(() => set.at(4)).toThrowError('Index out of bounds: 4');
+    });
+
+    it('iterates over a range', () => {
+        const set = AvlSet.from([1, 2, 3, 4, 5, 6]);
+
+        expect(Array.from(set.range(2, 5))).toEqual([2, 3, 4, 5]);
+        expect(Array.from(set.range(2, 5, { fromInclusive: false, toInclusive: false }))).toEqual([3, 4]);
+        expect(Array.from(set.range(undefined, 3, { reverse: true }))).toEqual([3, 2, 1]);
+    });
+
+    it('uses the compare function', () => {
+        const set = AvlSet.from(['b', 'c', 'a'], (a, b) => b.localeCompare(a));
+        expect(Array.from(set)).toEqual(['c', 'b', 'a']);
+        expect(set.ceiling('bb')).toBe('b');
+    });
+});
@@ -0,0 +1,170 @@
+import { AvlTree, CompareFunction, defaultCompareFunction, RangeOptions } from './avl-tree';
+
+/**
+ * A sorted set, backed by an AVL tree.
+ * Acts as a standard `Set`, and iterates its values in sorted order.
+ */
+export class AvlSet<K = any> implements Set<K> {
+    private readonly tree: AvlTree<K, true>;
+
+    /**
+     * Creates an empty sorted set.
+     * @param compareFunction A comparison function that enforces a total ordering:
+     *  i.e. if fn(a, b) < 0 then fn(b, a) > 0.
+     */
+    constructor(compareFunction: CompareFunction<K> = defaultCompareFunction) {
+        this.tree = new AvlTree<K, true>(compareFunction);
+    }
+
+    /**
+     * Creates a sorted set out of values in any order, in O(n log n).
+     * Duplicate values are only added once.
+     * @param values The values to add
+     * @param compareFunction The comparison function of the set
+     * @returns The new set
+     */
+    static from<K>(values: Iterable<K>, compareFunction: CompareFunction<K> = defaultCompareFunction): AvlSet<K> {
+        const set = new AvlSet<K>(compareFunction);
+        for (const value of values) {
+            set.add(value);
+        }
+        return set;
+    }
+
+    /**
+     * The number of values in the set.
+     */
+    get size(): number {
+        return this.tree.size;
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'AvlSet';
+    }
+
+    /**
+     * Adds a value to the set. Does nothing if the value is already present.
+     * @param value The value to add
+     * @returns The set itself (for chaining)
+     */
+    add(value: K): this {
+        this.tree.getOrInsert(value, () => true);
+        return this;
+    }
+
+    /**
+     * Checks if the set contains a value.
+     * @param value The value to check
+     * @returns True if the value exists in this set, false otherwise.
+     */
+    has(value: K): boolean {
+        return this.tree.has(value);
+    }
+
+    /**
+     * Removes a value from the set.
+     * @param value The value to remove
+     * @returns True if the value was found and removed, false otherwise.
+     */
+    delete(value: K): boolean {
+        return this.tree.delete(value);
+    }
+
+    clear(): void {
+        this.tree.clear();
+    }
+
+    min(): K | undefined {
+        return this.tree.minKey();
+    }
+
+    max(): K | undefined {
+        return this.tree.maxKey();
+    }
+
+    /**
+     * Finds the greatest value less than or equal to a given value.
+     */
+    floor(value: K): K | undefined {
+        return this.tree.floorKey(value);
+    }
+
+    /**
+     * Finds the smallest value greater than or equal to a given value.
+     */
+    ceiling(value: K): K | undefined {
+        return this.tree.ceilingKey(value);
+    }
+
+    /**
+     * Finds the greatest value strictly less than a given value.
+     */
+    lower(value: K): K | undefined {
+        return this.tree.lowerKey(value);
+    }
+
+    /**
+     * Finds the smallest value strictly greater than a given value.
+     */
+    higher(value: K): K | undefined {
+        return this.tree.higherKey(value);
+    }
+
+    /**
+     * Gets the value at a position in the sorted sequence of this set.
+     * Runs in O(log n).
+     * @param index The zero-based index
+     * @returns The value at the index
+     */
+    at(index: number): K {
+        return this.tree.nodeAt(index).key;
+    }
+
+    /**
+     * Iterates over the values between two bounds, in O(log n + m) for m values.
+     * @param from The lower bound, or undefined to start at the smallest value
+     * @param to The upper bound, or undefined to end at the greatest value
+     * @param options Whether the bounds are inclusive (default: both), and whether to iterate in reverse
+     */
+    *range(from?: K, to?: K, options: RangeOptions = {}): Generator<K> {
+        for (const [value] of this.tree.range(from, to, options)) {
+            yield value;
+        }
+    }
+
+    /**
+     * Executes a function on each value in the set, in sorted order.
+     * @param fn The iteration function, which receives each value twice, like `Set.prototype.forEach`
+     */
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    forEach(fn: (value: K, value2: K, set: AvlSet<K>) => void, thisArg?: any): void {
+        for (const value of this) {
+            fn.apply(thisArg, [value, value, this]);
+        }
+    }
+
+    keys(): Generator<K> {
+        return this.tree.keys();
+    }
+
+    values(): Generator<K> {
+        return this.tree.keys();
+    }
+
+    /**
+     * Returns an iterator of [value, value] pairs, like `Set.prototype.entries`.
+     */
+    *entries(): Generator<[K, K]> {
+        for (const value of this) {
+            yield [value, value];
+        }
+    }
+
+    /**
+     * Returns an iterator for the values, in sorted order.
+     * Usable with the 'for ... of' syntax.
+     */
+    [Symbol.iterator](): Generator<K> {
+        return this.tree.keys();
+    }
+}
@@ -0,0 +1,141 @@
+import { AvlTree } from './avl-tree';
+import { checkTree } from './avl-tree-utils';
+
+describe('AvlTreeCursor', () => {
+    const createTree = (): AvlTree<number, string> =>
+        AvlTree.from([10, 20, 30, 40, 50].map(key => [key, `${key}`] as [number, string]));
+
+    it('starts at the lowest key by default', () => {
+        const cursor = createTree().cursor();
+        expect(cursor.valid).toBe(true);
+        expect(cursor.current).toEqual([10, '10']);
+    });
+
+    it('starts at a key, or the next higher key', () => {
+        const tree = createTree();
+        expect(tree.cursor(30).key).toBe(30);
+        expect(tree.cursor(31).key).toBe(40);
+        expect(tree.cursor(51).valid).toBe(false);
+    });
+
+    it('moves in both directions', () => {
+        const cursor = createTree().cursor(30);
+
+        expect(cursor.next()).toBe(true);
+        expect(cursor.key).toBe(40);
+        expect(cursor.prev()).toBe(true);
+        expect(cursor.prev()).toBe(true);
+        expect(cursor.value).toBe('20');
+    });
+
+    it('becomes unpositioned when moving past either end', () => {
+        const tree = createTree();
+        const cursor = tree.cursor();
+
+        expect(cursor.prev()).toBe(false);
+        expect(cursor.current).toBeUndefined();
+        expect(cursor.next()).toBe(false);
+
+        expect(cursor.seekLast()).toBe(true);
+        expect(cursor.key).toBe(50);
+        expect(cursor.next()).toBe(false);
+        expect(cursor.seekFirst()).toBe(true);
+        expect(cursor.key).toBe(10);
+    });
+
+    it('seeks to a key', () => {
+        const cursor = createTree().cursor();
+        expect(cursor.seek(25)).toBe(true);
+        expect(cursor.key).toBe(30);
+        expect(cursor.seek(60)).toBe(false);
+        expect(new AvlTree().cursor().seekFirst()).toBe(false);
+    });
+
+    it('deletes the current entry and moves to the next one', () => {
+        const tree = createTree();
+        const cursor = tree.cursor(20);
+
+        expect(cursor.delete()).toBe(true);
+        expect(cursor.key).toBe(30);
+        expect(cursor.delete()).toBe(true);
+        expect(tree.keyList()).toEqual([10, 40, 50]);
+
+        cursor.seekLast();
+        expect(cursor.delete()).toBe(true);
+        expect(cursor.valid).toBe(false);
+        expect(cursor.delete()).toBe(false);
+        checkTree(tree.root);
+    });
+
+    it('inserts entries and moves to them', () => {
+        const tree = createTree();
+        const cursor = tree.cursor();
+
+        expect(cursor.insert(35, '35')).toBe(true);
+        expect(cursor.key).toBe(35);
+        expect(cursor.next()).toBe(true);
+        expect(cursor.key).toBe(40);
+        expect(cursor.insert(10, 'ten')).toBe(false);
+        expect(cursor.key).toBe(40);
+    });
+
+    it('inserts duplicates after the current entry', () => {
+        const tree = new AvlTree<number, string>(undefined, { duplicates: 'allow' });
+        tree.set(1, 'a').set(2, 'b');
+        const cursor = tree.cursor(1);
+
+        cursor.insert(1, 'c');
+        expect(cursor.value).toBe('c');
+        expect(tree.valueList()).toEqual(['a', 'c', 'b']);
+    });
+
+    it('stays on its entry when the tree is modified elsewhere', () => {
+        const tree = createTree();
+        const cursor = tree.cursor(30);
+
+        tree.delete(20);
+        tree.delete(40);
+        tree.insert(35, '35');
+        for (let key = 100; key < 200; key += 1) {
+            tree.insert(key, `${key}`);
+        }
+
+        expect(cursor.valid).toBe(true);
+        expect(cursor.removed).toBe(false);
+        expect(cursor.key).toBe(30);
+        cursor.next();
+        expect(cursor.key).toBe(35);
+        cursor.prev();
+        cursor.prev();
+        expect(cursor.key).toBe(10);
+    });
+
+    it('detects that its entry was removed elsewhere', () => {
+        const tree = createTree();
+        const cursor = tree.cursor(30);
+
+        tree.delete(30);
+
+        expect(cursor.removed).toBe(true);
+        expect(cursor.valid).toBe(false);
+        expect(cursor.current).toBeUndefined();
+        expect(() => cursor.next()).toThrowError(
+            'The entry of the cursor was removed from the tree; seek to reposition the cursor'
+        );
+        expect(() => cursor.delete()).toThrowError();
+
+        expect(cursor.seek(30)).toBe(true);
+        expect(cursor.removed).toBe(false);
+        expect(cursor.key).toBe(40);
+    });
+
+    it('detects that the tree was cleared', () => {
+        const tree = createTree();
+        const cursor = tree.cursor(30);
+
+        tree.clear();
+        tree.insert(30, 'new');
+
+        expect(cursor.removed).toBe(true);
+    });
+});
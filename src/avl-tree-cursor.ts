@@ -0,0 +1,167 @@
+import { AvlTree } from './avl-tree';
+import { AvlTreeNode } from './avl-tree-node';
+
+/**
+ * A movable position in a tree, for navigating back and forth between entries in sorted order.
+ *
+ * A cursor survives modifications of the tree: nodes keep their identity when other nodes are
+ * added or removed, so it simply stays on its entry. Only when its own entry is removed by something
+ * other than the cursor does it become invalid: `removed` is then true, and `next`/`prev` throw
+ * an error until the cursor is repositioned with one of the seek methods.
+ */
+export class AvlTreeCursor<K, V> {
+    private node?: AvlTreeNode<K, V>;
+    private modificationCount: number;
+    private _removed = false;
+
+    /**
+     * Creates a cursor. Use `AvlTree.cursor()` instead of calling this directly.
+     * @param tree The tree to navigate
+     * @param node The node to start at, or undefined for an unpositioned cursor
+     */
+    constructor(private readonly tree: AvlTree<K, V>, node?: AvlTreeNode<K, V>) {
+        this.node = node;
+        this.modificationCount = tree.modificationCount;
+    }
+
+    /**
+     * Whether the cursor is positioned on an entry.
+     */
+    get valid(): boolean {
+        this.refresh();
+        return !!this.node;
+    }
+
+    /**
+     * Whether the entry of the cursor was removed from the tree by something other than the cursor.
+     */
+    get removed(): boolean {
+        this.refresh();
+        return this._removed;
+    }
+
+    /**
+     * The key-value pair at the cursor, or undefined if the cursor is not positioned on an entry.
+     */
+    get current(): [K, V] | undefined {
+        this.refresh();
+        return this.node ? [this.node.key, this.node.value] : undefined;
+    }
+
+    get key(): K | undefined {
+        return this.current?.[0];
+    }
+
+    get value(): V | undefined {
+        return this.current?.[1];
+    }
+
+    /**
+     * Moves to the first entry with a key greater than or equal to the given key.
+     * @param key The key to seek (does not need to be present)
+     * @returns True if the cursor is positioned on an entry
+     */
+    seek(key: K): boolean {
+        return this.moveTo(this.tree.ceilingNode(key));
+    }
+
+    /**
+     * Moves to the entry with the lowest key.
+     * @returns True if the cursor is positioned on an entry, i.e. the tree is not empty
+     */
+    seekFirst(): boolean {
+        return this.moveTo(this.tree.minNode());
+    }
+
+    /**
+     * Moves to the entry with the highest key.
+     * @returns True if the cursor is positioned on an entry, i.e. the tree is not empty
+     */
+    seekLast(): boolean {
+        return this.moveTo(this.tree.maxNode());
+    }
+
+    /**
+     * Moves to the next entry. Moving past the last entry leaves the cursor unpositioned.
+     * @returns True if the cursor is positioned on an entry
+     */
+    next(): boolean {
+        return this.moveTo(this.positionedNode()?.successor());
+    }
+
+    /**
+     * Moves to the previous entry. Moving before the first entry leaves the cursor unpositioned.
+     * @returns True if the cursor is positioned on an entry
+     */
+    prev(): boolean {
+        return this.moveTo(this.positionedNode()?.predecessor());
+    }
+
+    /**
+     * Removes the entry at the cursor from the tree, and moves to the next entry.
+     * @returns True if an entry was removed
+     */
+    delete(): boolean {
+        const node = this.positionedNode();
+        if (!node) {
+            return false;
+        }
+        const next = node.successor();
+        this.tree.deleteNode(node);
+        this.moveTo(next);
+        return true;
+    }
+
+    /**
+     * Inserts an entry into the tree, and moves the cursor to it.
+     * In a tree that allows duplicates, an entry with the key of the current entry ends up after it.
+     * @param key The key of the new entry
+     * @param value The value of the new entry
+     * @returns True if the entry was inserted, false if the key already exists (the cursor does not move then)
+     */
+    insert(key: K, value: V): boolean {
+        const node = this.tree.insert(key, value);
+        if (!node) {
+            return false;
+        }
+        return this.moveTo(node);
+    }
+
+    private moveTo(node: AvlTreeNode<K, V> | undefined): boolean {
+        this.node = node;
+        this.modificationCount = this.tree.modificationCount;
+        this._removed = false;
+        return !!node;
+    }
+
+    /**
+     * Gets the node of the cursor for moving relative to it, which is not possible once that node was removed.
+     */
+    private positionedNode(): AvlTreeNode<K, V> | undefined {
+        this.refresh();
+        if (this._removed) {
+            throw new Error('The entry of the cursor was removed from the tree; seek to reposition the cursor');
+        }
+        return this.node;
+    }
+
+    /**
+     * Checks whether the node of the cursor is still in the tree, after the tree was modified.
+     */
+    private refresh(): void {
+        if (this.modificationCount === this.tree.modificationCount) {
+            return;
+        }
+        this.modificationCount = this.tree.modificationCount;
+
+        // Removed nodes are detached from their parent, so they no longer lead up to the root
+        let root = this.node;
+        while (root?.parent) {
+            root = root.parent;
+        }
+        if (this.node && root !== this.tree.root) {
+            this.node = undefined;
+            this._removed = true;
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import { AvlTree } from './avl-tree';
+import { AvlTreeNode } from './avl-tree-node';
+
+/**
+ * An iterator over the key-value pairs of a tree, in sorted order, that can remove the current entry.
+ * Like the other iterators of a tree, it throws an error when the tree is modified by anything else.
+ */
+export class AvlTreeIterator<K, V> implements IterableIterator<[K, V]> {
+    private current?: AvlTreeNode<K, V>;
+    private nextNode?: AvlTreeNode<K, V>;
+    private expectedModificationCount: number;
+
+    /**
+     * Creates an iterator, starting at the lowest key. Use `AvlTree.iterator()` instead of calling this directly.
+     * @param tree The tree to iterate over
+     */
+    constructor(private readonly tree: AvlTree<K, V>) {
+        this.nextNode = tree.minNode();
+        this.expectedModificationCount = tree.modificationCount;
+    }
+
+    next(): IteratorResult<[K, V]> {
+        checkModificationCount(this.tree, this.expectedModificationCount);
+        this.current = this.nextNode;
+        if (!this.current) {
+            return { done: true, value: undefined };
+        }
+        // Nodes keep their identity when other nodes are removed, so the successor stays valid after remove()
+        this.nextNode = this.current.successor();
+        return { done: false, value: [this.current.key, this.current.value] };
+    }
+
+    /**
+     * Removes the entry that was last returned by `next` from the tree.
+     */
+    remove(): void {
+        checkModificationCount(this.tree, this.expectedModificationCount);
+        if (!this.current) {
+            throw new Error('Nothing to remove: call next() first, and remove each entry only once');
+        }
+        this.tree.deleteNode(this.current);
+        this.current = undefined;
+        this.expectedModificationCount = this.tree.modificationCount;
+    }
+
+    [Symbol.iterator](): AvlTreeIterator<K, V> {
+        return this;
+    }
+}
+
+/**
+ * Throws an error if a tree has been modified since an iterator was created.
+ * @param tree The tree that is being iterated over
+ * @param expected The modification count of the tree when the iteration started
+ */
+export function checkModificationCount<K, V>(tree: AvlTree<K, V>, expected: number): void {
+    if (tree.modificationCount !== expected) {
+        throw new Error('Tree was modified during iteration');
+    }
+}
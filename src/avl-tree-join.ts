@@ -0,0 +1,226 @@
+import { CompareFunction, StructureHooks } from './avl-tree';
+import { AvlTreeNode } from './avl-tree-node';
+import {
+    adjustSizeUpwards,
+    getSize,
+    rotateLeft,
+    rotateRight,
+    updateAggregate,
+    updateAggregatesUpwards,
+    updateSize
+} from './avl-tree-utils';
+
+/**
+ * A detached subtree along with its height.
+ */
+export interface Subtree<K, V> {
+    node?: AvlTreeNode<K, V>;
+    height: number;
+}
+
+/**
+ * Computes the height of a subtree in O(log n), by following the balance factors down.
+ * @param node The root of the subtree (may be undefined)
+ * @returns The height, which is 0 for an empty subtree
+ */
+export function getHeight<K, V>(node: AvlTreeNode<K, V> | undefined): number {
+    let height = 0;
+    let current = node;
+    while (current) {
+        height += 1;
+        current = current.balanceFactor < 0 ? current.left : current.right;
+    }
+    return height;
+}
+
+/**
+ * Joins two detached subtrees and a middle node into a single AVL tree.
+ * All keys in the left subtree must be less than the key of the middle node,
+ * and all keys in the right subtree must be greater.
+ * Runs in O(|left height - right height| + 1).
+ * @param left The left subtree
+ * @param middle The middle node; its existing links are discarded
+ * @param right The right subtree
+ * @param hooks The hooks and rotation listener of the tree
+ * @returns The joined tree
+ */
+export function joinWithNode<K, V>(
+    left: Subtree<K, V>,
+    middle: AvlTreeNode<K, V>,
+    right: Subtree<K, V>,
+    hooks: StructureHooks<K, V> = {}
+): Subtree<K, V> {
+    middle.parent = undefined;
+    middle.left = undefined;
+    middle.right = undefined;
+
+    if (left.height > right.height + 1) {
+        return joinIntoSpine(left, middle, right, true, hooks);
+    }
+    if (right.height > left.height + 1) {
+        return joinIntoSpine(right, middle, left, false, hooks);
+    }
+
+    attach(middle, left, right, hooks);
+    return { node: middle, height: Math.max(left.height, right.height) + 1 };
+}
+
+/**
+ * Splits a detached subtree into the nodes with keys before a key and the nodes with keys after it.
+ * Runs in O(log n).
+ * @param subtree The subtree to split
+ * @param key The key to split at
+ * @param compareFunction The compare function of the tree
+ * @param equalGoesLeft Whether a node with a key equal to the split key ends up on the left side
+ * @param hooks The hooks and rotation listener of the tree
+ * @returns The left and right subtrees
+ */
+export function splitSubtree<K, V>(
+    subtree: Subtree<K, V>,
+    key: K,
+    compareFunction: CompareFunction<K>,
+    equalGoesLeft: boolean,
+    hooks: StructureHooks<K, V> = {}
+): [Subtree<K, V>, Subtree<K, V>] {
+    const { node, height } = subtree;
+    if (!node) {
+        return [{ height: 0 }, { height: 0 }];
+    }
+
+    // Expose the children as detached subtrees
+    const left: Subtree<K, V> = { node: node.left, height: node.balanceFactor > 0 ? height - 2 : height - 1 };
+    const right: Subtree<K, V> = { node: node.right, height: node.balanceFactor < 0 ? height - 2 : height - 1 };
+    if (left.node) {
+        left.node.parent = undefined;
+    }
+    if (right.node) {
+        right.node.parent = undefined;
+    }
+
+    // With duplicate keys, nodes equal to the split key may exist in both children, so keep descending
+    const cmp = compareFunction(key, node.key);
+    if (cmp < 0 || (cmp === 0 && !equalGoesLeft)) {
+        const [leftLeft, leftRight] = splitSubtree(left, key, compareFunction, equalGoesLeft, hooks);
+        return [leftLeft, joinWithNode(leftRight, node, right, hooks)];
+    }
+    const [rightLeft, rightRight] = splitSubtree(right, key, compareFunction, equalGoesLeft, hooks);
+    return [joinWithNode(left, node, rightLeft, hooks), rightRight];
+}
+
+/**
+ * Links a node to its two children and computes its balance factor, size and aggregate.
+ */
+function attach<K, V>(
+    node: AvlTreeNode<K, V>,
+    left: Subtree<K, V>,
+    right: Subtree<K, V>,
+    hooks: StructureHooks<K, V>
+): void {
+    node.left = left.node;
+    node.right = right.node;
+    if (left.node) {
+        left.node.parent = node;
+    }
+    if (right.node) {
+        right.node.parent = node;
+    }
+    node.balanceFactor = right.height - left.height;
+    updateSize(node);
+    updateAggregate(node, hooks.augment);
+}
+
+/**
+ * Joins a lower subtree and a middle node into the spine of a taller subtree:
+ * the right spine if the taller subtree is on the left, the left spine otherwise.
+ */
+function joinIntoSpine<K, V>(
+    taller: Subtree<K, V>,
+    middle: AvlTreeNode<K, V>,
+    lower: Subtree<K, V>,
+    tallerIsLeft: boolean,
+    hooks: StructureHooks<K, V>
+): Subtree<K, V> {
+    // Walk down the spine to the first node that is at most one level higher than the lower subtree
+    let parent: AvlTreeNode<K, V> | undefined;
+    let current = taller.node;
+    let height = taller.height;
+    while (current && height > lower.height + 1) {
+        parent = current;
+        if (tallerIsLeft) {
+            height -= current.balanceFactor < 0 ? 2 : 1;
+            current = current.right;
+        } else {
+            height -= current.balanceFactor > 0 ? 2 : 1;
+            current = current.left;
+        }
+    }
+
+    /* istanbul ignore next */
+    if (!parent) {
+        throw new Error('Invariant failed: taller subtree is not taller');
+    }
+
+    // The middle node takes the place of the spine node, which becomes its child
+    const spine: Subtree<K, V> = { node: current, height };
+    if (tallerIsLeft) {
+        attach(middle, spine, lower, hooks);
+        parent.right = middle;
+    } else {
+        attach(middle, lower, spine, hooks);
+        parent.left = middle;
+    }
+    middle.parent = parent;
+    adjustSizeUpwards(parent, getSize(lower.node) + 1);
+    updateAggregatesUpwards(parent, hooks.augment);
+
+    const grewToTop = rebalanceAfterGrowth(middle, hooks);
+
+    let root = middle;
+    while (root.parent) {
+        root = root.parent;
+    }
+    return { node: root, height: grewToTop ? taller.height + 1 : taller.height };
+}
+
+/**
+ * Updates balance factors upwards after a subtree has become one level higher, rotating where needed.
+ * Unlike after an insertion, the grown subtree may be perfectly balanced, so a single rotation does
+ * not always restore the original height.
+ * @param child The root of the subtree that has grown
+ * @param hooks The hooks and rotation listener of the tree
+ * @returns True if the growth propagated all the way up to the root
+ */
+function rebalanceAfterGrowth<K, V>(child: AvlTreeNode<K, V>, hooks: StructureHooks<K, V>): boolean {
+    let current = child;
+    let parent = current.parent;
+    while (parent) {
+        parent.balanceFactor += parent.left === current ? -1 : 1;
+
+        if (parent.balanceFactor === 0) {
+            return false;
+        }
+        if (parent.balanceFactor < -1) {
+            hooks.onRebalance?.();
+            if (parent.left && parent.left.balanceFactor > 0) {
+                rotateLeft(parent.left, hooks);
+            }
+            current = rotateRight(parent, hooks);
+            if (current.balanceFactor === 0) {
+                return false;
+            }
+        } else if (parent.balanceFactor > 1) {
+            hooks.onRebalance?.();
+            if (parent.right && parent.right.balanceFactor < 0) {
+                rotateRight(parent.right, hooks);
+            }
+            current = rotateLeft(parent, hooks);
+            if (current.balanceFactor === 0) {
+                return false;
+            }
+        } else {
+            current = parent;
+        }
+        parent = current.parent;
+    }
+    return true;
+}
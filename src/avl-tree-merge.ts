@@ -0,0 +1,75 @@
+import { CompareFunction } from './avl-tree';
+
+/**
+ * Determines which keys end up in the result of merging two sorted sequences.
+ */
+export interface MergeRules<K, V> {
+    /**
+     * Whether to include keys that only occur on the left side
+     */
+    left: boolean;
+    /**
+     * Whether to include keys that only occur on the right side
+     */
+    right: boolean;
+    /**
+     * Computes the value for keys that occur on both sides. If omitted, these keys are left out.
+     */
+    both?: (key: K, leftValue: V, rightValue: V) => V;
+}
+
+/**
+ * Merges two sequences of entries that are sorted by key, in O(n + m).
+ * @param left The left entries, in strictly ascending order
+ * @param right The right entries, in strictly ascending order
+ * @param compareFunction The compare function that both sequences are sorted by
+ * @param rules Which keys to include in the result
+ * @returns The merged entries, in strictly ascending order
+ */
+export function mergeEntries<K, V>(
+    left: Iterable<[K, V]>,
+    right: Iterable<[K, V]>,
+    compareFunction: CompareFunction<K>,
+    rules: MergeRules<K, V>
+): [K, V][] {
+    const result: [K, V][] = [];
+    const leftIterator = left[Symbol.iterator]();
+    const rightIterator = right[Symbol.iterator]();
+    let leftNext = leftIterator.next();
+    let rightNext = rightIterator.next();
+
+    while (!leftNext.done && !rightNext.done) {
+        const [leftKey, leftValue] = leftNext.value;
+        const [rightKey, rightValue] = rightNext.value;
+        const cmp = compareFunction(leftKey, rightKey);
+        if (cmp < 0) {
+            if (rules.left) {
+                result.push([leftKey, leftValue]);
+            }
+            leftNext = leftIterator.next();
+        } else if (cmp > 0) {
+            if (rules.right) {
+                result.push([rightKey, rightValue]);
+            }
+            rightNext = rightIterator.next();
+        } else {
+            if (rules.both) {
+                result.push([leftKey, rules.both(leftKey, leftValue, rightValue)]);
+            }
+            leftNext = leftIterator.next();
+            rightNext = rightIterator.next();
+        }
+    }
+
+    // At most one of the sequences has entries left
+    while (!leftNext.done && rules.left) {
+        result.push(leftNext.value);
+        leftNext = leftIterator.next();
+    }
+    while (!rightNext.done && rules.right) {
+        result.push(rightNext.value);
+        rightNext = rightIterator.next();
+    }
+
+    return result;
+}
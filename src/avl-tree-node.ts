@@ -10,8 +10,59 @@ export class AvlTreeNode<K, V> implements AvlTreeNodeJson<K, V> {
     left?: AvlTreeNode<K, V>;
     right?: AvlTreeNode<K, V>;
     balanceFactor = 0;
+    /**
+     * The number of nodes in the subtree rooted at this node (including itself).
+     */
+    size = 1;
+    /**
+     * The aggregate of the subtree rooted at this node, for trees created with the `augment` option.
+     */
+    aggregate?: unknown;
 
-    constructor(public readonly key: K, public readonly value: V, public parent?: AvlTreeNode<K, V>) {}
+    constructor(public readonly key: K, private _value: V, public parent?: AvlTreeNode<K, V>) {}
+
+    /**
+     * Recreates a (sub)tree from the output of `toJSON`, including parent links and subtree sizes.
+     * The structure and balance factors are taken as-is; they are not validated.
+     * @param json The JSON representation of the subtree
+     * @param parent The parent of the subtree root (optional)
+     * @returns The root node of the subtree
+     */
+    static fromJSON<K, V>(json: AvlTreeNodeJson<K, V>, parent?: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
+        const node = new AvlTreeNode<K, V>(json.key, json.value, parent);
+        node.balanceFactor = json.balanceFactor;
+        if (json.left) {
+            node.left = AvlTreeNode.fromJSON(json.left, node);
+            node.size += node.left.size;
+        }
+        if (json.right) {
+            node.right = AvlTreeNode.fromJSON(json.right, node);
+            node.size += node.right.size;
+        }
+        return node;
+    }
+
+    /**
+     * The value stored in this node.
+     */
+    get value(): V {
+        return this._value;
+    }
+
+    /**
+     * Replaces the value stored in this node. The key, and therefore the
+     * position of the node within its tree, stays the same.
+     * Only for use by the tree, which also updates the aggregates and emits an 'update' event:
+     * to change a value, use `set`, `update` or `upsert` on the tree.
+     * @internal
+     * @param value The new value
+     * @returns The previous value
+     */
+    setValue(value: V): V {
+        const previous = this._value;
+        this._value = value;
+        return previous;
+    }
 
     successor(): AvlTreeNode<K, V> | undefined {
         if (this.right) {
@@ -59,6 +110,30 @@ export class AvlTreeNode<K, V> implements AvlTreeNodeJson<K, V> {
         return parent;
     }
 
+    /**
+     * Determines the position of this node within the in-order sequence of its tree.
+     * Runs in O(log n) by walking up to the root.
+     * @returns The zero-based index of this node
+     */
+    rank(): number {
+        let rank = this.left ? this.left.size : 0;
+
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        let child: AvlTreeNode<K, V> = this;
+        let parent = this.parent;
+
+        // Every ancestor that we are right of precedes us, along with its left subtree
+        while (parent) {
+            if (parent.right === child) {
+                rank += (parent.left ? parent.left.size : 0) + 1;
+            }
+            child = parent;
+            parent = child.parent;
+        }
+
+        return rank;
+    }
+
     toJSON(): AvlTreeNodeJson<K, V> {
         const json: AvlTreeNodeJson<K, V> = {
             key: this.key,
@@ -0,0 +1,157 @@
+import { AvlTree } from './avl-tree';
+import { jsonCodec, numberCodec, SERIALIZATION_VERSION, stringCodec } from './avl-tree-serialization';
+import { checkTree } from './avl-tree-utils';
+
+describe('AvlTreeSerialization', () => {
+    describe('codecs', () => {
+        it('round-trips numbers', () => {
+            for (const value of [0, -0, 1.5, -1e300, Infinity, NaN]) {
+                expect(numberCodec.decode(numberCodec.encode(value))).toBe(value);
+            }
+        });
+
+        it('round-trips strings', () => {
+            for (const value of ['', 'abc', 'ünïcödé ✓']) {
+                expect(stringCodec.decode(stringCodec.encode(value))).toBe(value);
+            }
+        });
+
+        it('round-trips JSON values', () => {
+            const value = { a: [1, 2, { b: 'c' }], d: null };
+            expect(jsonCodec.decode(jsonCodec.encode(value))).toEqual(value);
+        });
+
+        it('round-trips undefined JSON values', () => {
+            expect(jsonCodec.decode(jsonCodec.encode(undefined))).toBeUndefined();
+            expect(jsonCodec.decode(jsonCodec.encode(null))).toBeNull();
+            expect(jsonCodec.decode(jsonCodec.encode(''))).toBe('');
+        });
+
+        it('rejects numbers of the wrong length', () => {
+            expect(() => numberCodec.decode(new Uint8Array(4))).toThrowError('Invalid number: expected 8 bytes, got 4');
+        });
+    });
+
+    describe('serialize', () => {
+        it('writes a versioned header', () => {
+            const bytes = new AvlTree<number, number>().serialize({ key: numberCodec, value: numberCodec });
+            expect(Array.from(bytes)).toEqual([0x51, 0x41, 0x56, 0x4c, SERIALIZATION_VERSION, 0, 0, 0, 0, 0]);
+        });
+
+        it('round-trips a tree as a balanced tree', () => {
+            const tree = createTree(100);
+            const bytes = tree.serialize({ key: numberCodec, value: stringCodec });
+
+            const copy = AvlTree.deserialize(bytes, { key: numberCodec, value: stringCodec });
+
+            checkTree(copy.root);
+            expect(copy.size).toBe(100);
+            expect(copy.entryList()).toEqual(tree.entryList());
+        });
+
+        it('round-trips the exact shape of a tree', () => {
+            const tree = createTree(100);
+            const options = { key: numberCodec, value: stringCodec, shape: true };
+
+            const copy = AvlTree.deserialize(tree.serialize(options), options);
+
+            checkTree(copy.root);
+            expect(copy.toJSON()).toEqual(tree.toJSON());
+        });
+
+        it('round-trips a tree with undefined values', () => {
+            const tree = new AvlTree<number, any>();
+            tree.set(1, undefined).set(2, { a: 1 }).set(3, undefined);
+            const options = { key: numberCodec, value: jsonCodec };
+
+            const copy = AvlTree.deserialize(tree.serialize(options), options);
+
+            expect(copy.entryList()).toEqual([
+                [1, undefined],
+                [2, { a: 1 }],
+                [3, undefined]
+            ]);
+        });
+
+        it('round-trips empty trees', () => {
+            for (const shape of [false, true]) {
+                const options = { key: stringCodec, value: jsonCodec, shape };
+                const copy = AvlTree.deserialize(new AvlTree<string, any>().serialize(options), options);
+                expect(copy.size).toBe(0);
+                expect(copy.root).toBeUndefined();
+            }
+        });
+
+        it('uses the compare function', () => {
+            const compareFunction = (a: string, b: string): number => b.localeCompare(a);
+            const tree = new AvlTree<string, number>(compareFunction);
+            tree.set('a', 1).set('b', 2).set('c', 3);
+            const options = { key: stringCodec, value: numberCodec };
+
+            const copy = AvlTree.deserialize(tree.serialize(options), options, compareFunction);
+
+            expect(copy.keyList()).toEqual(['c', 'b', 'a']);
+            expect(() => AvlTree.deserialize(tree.serialize(options), options)).toThrowError(
+                'Invalid data: key b does not come after key c'
+            );
+        });
+    });
+
+    describe('deserialize', () => {
+        const options = { key: numberCodec, value: stringCodec, shape: true };
+
+        it('rejects data without a header', () => {
+            expect(() => AvlTree.deserialize(new Uint8Array([1, 2, 3, 4, 5, 6]), options)).toThrowError(
+                'Invalid data: not a serialized AVL tree'
+            );
+        });
+
+        it('rejects unknown versions', () => {
+            const bytes = createTree(3).serialize(options);
+            bytes[4] = 99;
+            expect(() => AvlTree.deserialize(bytes, options)).toThrowError('Unsupported serialization version: 99');
+        });
+
+        it('rejects truncated data', () => {
+            const bytes = createTree(3).serialize(options);
+            expect(() => AvlTree.deserialize(bytes.subarray(0, bytes.length - 5), options)).toThrowError(
+                /^Invalid data: unexpected end of data at offset \d+$/
+            );
+        });
+
+        it('rejects trailing data', () => {
+            const bytes = createTree(3).serialize(options);
+            const extended = new Uint8Array(bytes.length + 2);
+            extended.set(bytes);
+            expect(() => AvlTree.deserialize(extended, options)).toThrowError(
+                'Invalid data: 2 unexpected bytes at the end'
+            );
+        });
+
+        it('rejects shapes that are not AVL', () => {
+            const bytes = createTree(3).serialize(options);
+            // Turn the balanced shape (root with 2 leaves) into a chain of left children
+            bytes.set([1, 1, 0], bytes.length - 3);
+            expect(() => AvlTree.deserialize(bytes, options)).toThrowError(
+                'Invalid data: node 2 has balance factor -2, which is not AVL'
+            );
+        });
+
+        it('rejects shapes with the wrong number of nodes', () => {
+            const bytes = createTree(3).serialize(options);
+            bytes.set([0, 0, 0], bytes.length - 3);
+            expect(() => AvlTree.deserialize(bytes, options)).toThrowError(
+                'Invalid data: shape does not describe an AVL tree of the stored size'
+            );
+        });
+    });
+});
+
+function createTree(count: number): AvlTree<number, string> {
+    const tree = new AvlTree<number, string>();
+    for (let i = 0; i < count; i += 1) {
+        const key = (i * 37) % count;
+        tree.insert(key, `${key}`);
+    }
+    return tree;
+}
@@ -0,0 +1,293 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { CompareFunction } from './avl-tree';
+import { AvlTreeNode } from './avl-tree-node';
+import { buildBalancedTree } from './avl-tree-utils';
+
+/**
+ * Converts values of a certain type to bytes and back.
+ */
+export interface Codec<T> {
+    encode(value: T): Uint8Array;
+    decode(bytes: Uint8Array): T;
+}
+
+export interface SerializationOptions<K, V> {
+    /**
+     * Codec for the keys
+     */
+    key: Codec<K>;
+    /**
+     * Codec for the values
+     */
+    value: Codec<V>;
+    /**
+     * Whether to include the shape of the tree, so it is restored exactly (default: false).
+     * Without it, a perfectly balanced tree is built on load.
+     */
+    shape?: boolean;
+}
+
+/**
+ * The current version of the binary format.
+ *
+ * Layout (all integers are unsigned 32-bit big-endian, unless noted otherwise):
+ * - header: the magic bytes 'QAVL', a version byte and a flags byte (1 = shape included)
+ * - the number of entries
+ * - per entry, in ascending key order: key length, key bytes, value length, value bytes
+ * - if the shape is included: per node, in pre-order, one byte (1 = has left child, 2 = has right child, 3 = both)
+ */
+export const SERIALIZATION_VERSION = 1;
+
+const MAGIC = [0x51, 0x41, 0x56, 0x4c]; // 'QAVL'
+const FLAG_SHAPE = 1;
+const SHAPE_LEFT = 1;
+const SHAPE_RIGHT = 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Encodes numbers as 64-bit floating point values.
+ */
+export const numberCodec: Codec<number> = {
+    encode(value: number): Uint8Array {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, value);
+        return bytes;
+    },
+    decode(bytes: Uint8Array): number {
+        if (bytes.length !== 8) {
+            throw new Error(`Invalid number: expected 8 bytes, got ${bytes.length}`);
+        }
+        return new DataView(bytes.buffer, bytes.byteOffset, bytes.length).getFloat64(0);
+    }
+};
+
+/**
+ * Encodes strings as UTF-8.
+ */
+export const stringCodec: Codec<string> = {
+    encode(value: string): Uint8Array {
+        return textEncoder.encode(value);
+    },
+    decode(bytes: Uint8Array): string {
+        return textDecoder.decode(bytes);
+    }
+};
+
+/**
+ * Encodes any JSON-compatible value as a UTF-8 JSON string.
+ * `undefined`, which has no JSON representation, is encoded as zero bytes.
+ */
+export const jsonCodec: Codec<any> = {
+    encode(value: any): Uint8Array {
+        const json: string | undefined = JSON.stringify(value);
+        return json === undefined ? new Uint8Array(0) : stringCodec.encode(json);
+    },
+    decode(bytes: Uint8Array): any {
+        return bytes.length === 0 ? undefined : JSON.parse(stringCodec.decode(bytes));
+    }
+};
+
+/**
+ * Writes a tree to the binary format.
+ * @param root The root node of the tree
+ * @param size The number of nodes in the tree
+ * @param options The codecs to use, and whether to include the shape
+ * @returns The serialized tree
+ */
+export function serializeTree<K, V>(
+    root: AvlTreeNode<K, V> | undefined,
+    size: number,
+    options: SerializationOptions<K, V>
+): Uint8Array {
+    const chunks: Uint8Array[] = [];
+
+    chunks.push(Uint8Array.from([...MAGIC, SERIALIZATION_VERSION, options.shape ? FLAG_SHAPE : 0]));
+    chunks.push(encodeUint32(size));
+
+    // Entries in ascending order
+    let current = root;
+    while (current?.left) {
+        current = current.left;
+    }
+    while (current) {
+        const key = options.key.encode(current.key);
+        const value = options.value.encode(current.value);
+        chunks.push(encodeUint32(key.length), key, encodeUint32(value.length), value);
+        current = current.successor();
+    }
+
+    if (options.shape) {
+        // Child flags in pre-order, using an explicit stack to support deep trees
+        const shape = new Uint8Array(size);
+        const stack = root ? [root] : [];
+        let index = 0;
+        while (stack.length > 0) {
+            const node = stack.pop() as AvlTreeNode<K, V>;
+            shape[index] = (node.left ? SHAPE_LEFT : 0) + (node.right ? SHAPE_RIGHT : 0);
+            index += 1;
+            if (node.right) {
+                stack.push(node.right);
+            }
+            if (node.left) {
+                stack.push(node.left);
+            }
+        }
+        chunks.push(shape);
+    }
+
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Reads a tree from the binary format. Throws an error if the data is malformed,
+ * if the keys are not in ascending order or if the stored shape is not a valid AVL tree.
+ * @param bytes The serialized tree
+ * @param options The codecs to use
+ * @param compareFunction The compare function of the tree
+ * @param allowDuplicates Whether equal keys may follow each other
+ * @returns The root node of the tree, and the number of nodes in it
+ */
+export function deserializeTree<K, V>(
+    bytes: Uint8Array,
+    options: SerializationOptions<K, V>,
+    compareFunction: CompareFunction<K>,
+    allowDuplicates = false
+): { root: AvlTreeNode<K, V> | undefined; size: number } {
+    const reader: Reader = {
+        bytes,
+        view: new DataView(bytes.buffer, bytes.byteOffset, bytes.length),
+        offset: 0
+    };
+
+    const header = readBytes(reader, MAGIC.length + 2);
+    if (MAGIC.some((byte, i) => header[i] !== byte)) {
+        throw new Error('Invalid data: not a serialized AVL tree');
+    }
+    const version = header[MAGIC.length];
+    if (version !== SERIALIZATION_VERSION) {
+        throw new Error(`Unsupported serialization version: ${version}`);
+    }
+    const hasShape = header[MAGIC.length + 1] === FLAG_SHAPE;
+
+    const size = readUint32(reader);
+    const entries: [K, V][] = [];
+    for (let i = 0; i < size; i += 1) {
+        const key = options.key.decode(readBytes(reader, readUint32(reader)));
+        const value = options.value.decode(readBytes(reader, readUint32(reader)));
+        const cmp = i > 0 ? compareFunction(entries[i - 1][0], key) : -1;
+        if (cmp > 0 || (cmp === 0 && !allowDuplicates)) {
+            throw new Error(`Invalid data: key ${key} does not come after key ${entries[i - 1][0]}`);
+        }
+        entries.push([key, value]);
+    }
+
+    let root: AvlTreeNode<K, V> | undefined;
+    if (hasShape) {
+        const shape = readBytes(reader, size);
+        const state = { shapeIndex: 0, entryIndex: 0 };
+        // An AVL tree of n nodes is never higher than about 1.44 log2(n + 2)
+        const maxHeight = Math.ceil(1.4405 * Math.log2(size + 2));
+        root = size > 0 ? readShapeSubtree(shape, entries, state, undefined, 1, maxHeight).node : undefined;
+        if (state.shapeIndex !== size) {
+            throw new Error('Invalid data: shape does not describe an AVL tree of the stored size');
+        }
+    } else {
+        root = buildBalancedTree(entries);
+    }
+
+    if (reader.offset !== bytes.length) {
+        throw new Error(`Invalid data: ${bytes.length - reader.offset} unexpected bytes at the end`);
+    }
+
+    return { root, size };
+}
+
+interface Reader {
+    bytes: Uint8Array;
+    view: DataView;
+    offset: number;
+}
+
+function encodeUint32(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+}
+
+function readUint32(reader: Reader): number {
+    ensureAvailable(reader, 4);
+    const value = reader.view.getUint32(reader.offset);
+    reader.offset += 4;
+    return value;
+}
+
+function readBytes(reader: Reader, length: number): Uint8Array {
+    ensureAvailable(reader, length);
+    const bytes = reader.bytes.subarray(reader.offset, reader.offset + length);
+    reader.offset += length;
+    return bytes;
+}
+
+function ensureAvailable(reader: Reader, length: number): void {
+    if (reader.offset + length > reader.bytes.length) {
+        throw new Error(`Invalid data: unexpected end of data at offset ${reader.offset}`);
+    }
+}
+
+/**
+ * Recreates a subtree from the pre-order shape flags, assigning the sorted entries in order.
+ * @returns The subtree root and its height
+ */
+function readShapeSubtree<K, V>(
+    shape: Uint8Array,
+    entries: [K, V][],
+    state: { shapeIndex: number; entryIndex: number },
+    parent: AvlTreeNode<K, V> | undefined,
+    depth: number,
+    maxHeight: number
+): { node: AvlTreeNode<K, V>; height: number } {
+    if (depth > maxHeight || state.shapeIndex >= shape.length) {
+        throw new Error('Invalid data: shape does not describe an AVL tree of the stored size');
+    }
+    const flags = shape[state.shapeIndex];
+    state.shapeIndex += 1;
+    if (flags > SHAPE_LEFT + SHAPE_RIGHT) {
+        throw new Error(`Invalid data: unknown shape flags ${flags}`);
+    }
+
+    // The key of a node comes after all keys in its left subtree, so build that first
+    const left =
+        flags === SHAPE_LEFT || flags === SHAPE_LEFT + SHAPE_RIGHT
+            ? readShapeSubtree(shape, entries, state, undefined, depth + 1, maxHeight)
+            : undefined;
+
+    const [key, value] = entries[state.entryIndex];
+    state.entryIndex += 1;
+    const node = new AvlTreeNode<K, V>(key, value, parent);
+    if (left) {
+        node.left = left.node;
+        left.node.parent = node;
+    }
+
+    const right =
+        flags >= SHAPE_RIGHT ? readShapeSubtree(shape, entries, state, node, depth + 1, maxHeight) : undefined;
+    node.right = right?.node;
+
+    const leftHeight = left ? left.height : 0;
+    const rightHeight = right ? right.height : 0;
+    node.balanceFactor = rightHeight - leftHeight;
+    if (node.balanceFactor < -1 || node.balanceFactor > 1) {
+        throw new Error(`Invalid data: node ${key} has balance factor ${node.balanceFactor}, which is not AVL`);
+    }
+    node.size = (left ? left.node.size : 0) + (right ? right.node.size : 0) + 1;
+
+    return { node, height: Math.max(leftHeight, rightHeight) + 1 };
+}
@@ -1,8 +1,17 @@
+import {
+    Augmentation,
+    CompareFunction,
+    StructureHooks,
+    TreeShape,
+    ValidationIssue,
+    ValidationReport
+} from './avl-tree';
 import { AvlTreeNode } from './avl-tree-node';
 
 /**
  * Rotates left around a root node
  * @param root The root node
+ * @param hooks The augmentation and rotation listener of the tree
  * @returns The new root node
  *
  *         100    Rotate left     150
@@ -15,7 +24,7 @@ import { AvlTreeNode } from './avl-tree-node';
  *
  * In above picture, 100 is the root, and 150 is the new root
  */
-export function rotateLeft<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
+export function rotateLeft<K, V>(root: AvlTreeNode<K, V>, hooks: StructureHooks<K, V> = {}): AvlTreeNode<K, V> {
     const { right: newRoot } = root;
     if (!newRoot) {
         throw new Error('Cannot rotate left without a right child');
@@ -34,6 +43,12 @@ export function rotateLeft<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
     newRoot.left = root;
     root.parent = newRoot;
 
+    // Old root lost a subtree to the new root, which now contains everything
+    updateSize(root);
+    updateSize(newRoot);
+    updateAggregate(root, hooks.augment);
+    updateAggregate(newRoot, hooks.augment);
+
     // Old root's balance factor decreases by 1
     root.balanceFactor -= 1;
 
@@ -53,12 +68,15 @@ export function rotateLeft<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
         newRoot.balanceFactor += root.balanceFactor;
     }
 
+    hooks.onRotate?.(root, newRoot, 'left');
+
     return newRoot;
 }
 
 /**
  * Rotates right around a root node
  * @param root The root node
+ * @param hooks The augmentation and rotation listener of the tree
  * @returns The new root node
  *
  *        100       Rotate right    50
@@ -71,7 +89,7 @@ export function rotateLeft<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
  *
  * In above picture, 100 is the root, and 50 is the new root
  */
-export function rotateRight<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
+export function rotateRight<K, V>(root: AvlTreeNode<K, V>, hooks: StructureHooks<K, V> = {}): AvlTreeNode<K, V> {
     const { left: newRoot } = root;
     if (!newRoot) {
         throw new Error('Cannot rotate right without a left child');
@@ -90,6 +108,12 @@ export function rotateRight<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
     newRoot.right = root;
     root.parent = newRoot;
 
+    // Old root lost a subtree to the new root, which now contains everything
+    updateSize(root);
+    updateSize(newRoot);
+    updateAggregate(root, hooks.augment);
+    updateAggregate(newRoot, hooks.augment);
+
     // Old root's balance factor increases by 1
     root.balanceFactor += 1;
 
@@ -109,6 +133,8 @@ export function rotateRight<K, V>(root: AvlTreeNode<K, V>): AvlTreeNode<K, V> {
         newRoot.balanceFactor += root.balanceFactor;
     }
 
+    hooks.onRotate?.(root, newRoot, 'right');
+
     return newRoot;
 }
 
@@ -248,19 +274,172 @@ export function replaceNode<K, V>(node: AvlTreeNode<K, V>, replacement: AvlTreeN
     }
     node.right = undefined;
 
-    // Copy balance factor
+    // Copy balance factor, subtree size and aggregate
     replacement.balanceFactor = node.balanceFactor;
+    replacement.size = node.size;
+    replacement.aggregate = node.aggregate;
+}
+
+/**
+ * Gets the number of nodes in a subtree.
+ * @param node The root of the subtree (may be undefined)
+ * @returns The subtree size, or 0 for an empty subtree
+ */
+export function getSize<K, V>(node: AvlTreeNode<K, V> | undefined): number {
+    return node ? node.size : 0;
+}
+
+/**
+ * Recomputes the subtree size of a node from the sizes of its children.
+ * @param node The node to update
+ */
+export function updateSize<K, V>(node: AvlTreeNode<K, V>): void {
+    node.size = getSize(node.left) + getSize(node.right) + 1;
+}
+
+/**
+ * Adds a delta to the subtree size of a node and all of its ancestors.
+ * Used after a node has been attached or detached below the given node.
+ * @param node The lowest node whose subtree changed (may be undefined)
+ * @param delta The number of nodes added (positive) or removed (negative)
+ */
+export function adjustSizeUpwards<K, V>(node: AvlTreeNode<K, V> | undefined, delta: number): void {
+    let current = node;
+    while (current) {
+        current.size += delta;
+        current = current.parent;
+    }
+}
+
+/**
+ * Recomputes the aggregate of a node from its own entry and the aggregates of its children.
+ * Does nothing if the tree is not augmented.
+ * @param node The node to update
+ * @param augmentation The augmentation of the tree, if any
+ */
+export function updateAggregate<K, V>(node: AvlTreeNode<K, V>, augmentation: Augmentation<K, V> | undefined): void {
+    if (augmentation) {
+        const { combine, fromNode } = augmentation;
+        node.aggregate = combine(
+            combine(getAggregate(node.left, augmentation), fromNode(node.key, node.value)),
+            getAggregate(node.right, augmentation)
+        );
+    }
+}
+
+/**
+ * Recomputes the aggregates of a node and all of its ancestors.
+ * Used after the entries below the given node have changed.
+ * @param node The lowest node whose subtree changed (may be undefined)
+ * @param augmentation The augmentation of the tree, if any
+ */
+export function updateAggregatesUpwards<K, V>(
+    node: AvlTreeNode<K, V> | undefined,
+    augmentation: Augmentation<K, V> | undefined
+): void {
+    if (augmentation) {
+        let current = node;
+        while (current) {
+            updateAggregate(current, augmentation);
+            current = current.parent;
+        }
+    }
+}
+
+/**
+ * Computes the aggregates of all nodes in a subtree, in O(n).
+ * @param node The root of the subtree (may be undefined)
+ * @param augmentation The augmentation of the tree, if any
+ */
+export function computeAggregates<K, V>(
+    node: AvlTreeNode<K, V> | undefined,
+    augmentation: Augmentation<K, V> | undefined
+): void {
+    if (node && augmentation) {
+        computeAggregates(node.left, augmentation);
+        computeAggregates(node.right, augmentation);
+        updateAggregate(node, augmentation);
+    }
+}
+
+/**
+ * Gets the aggregate of a subtree.
+ * @param node The root of the subtree (may be undefined)
+ * @param augmentation The augmentation of the tree
+ * @returns The aggregate, or the identity for an empty subtree
+ */
+export function getAggregate<K, V, A>(node: AvlTreeNode<K, V> | undefined, augmentation: Augmentation<K, V, A>): A {
+    return node ? (node.aggregate as A) : augmentation.identity;
+}
+
+/**
+ * Builds a balanced tree out of entries that are sorted by key, in O(n).
+ * Balance factors, subtree sizes and parent links are set on every node.
+ * @param entries The key-value pairs, sorted in strictly ascending order of their keys
+ * @returns The root node of the tree, or undefined if there are no entries
+ */
+export function buildBalancedTree<K, V>(entries: [K, V][]): AvlTreeNode<K, V> | undefined {
+    return linkBalancedTree(entries.map(([key, value]) => new AvlTreeNode<K, V>(key, value)));
+}
+
+/**
+ * Links existing nodes into a balanced tree, in O(n). Any previous links of the nodes are discarded,
+ * but the nodes themselves (and their keys and values) are kept.
+ * @param nodes The nodes, sorted in ascending order of their keys
+ * @returns The root node of the tree, or undefined if there are no nodes
+ */
+export function linkBalancedTree<K, V>(nodes: AvlTreeNode<K, V>[]): AvlTreeNode<K, V> | undefined {
+    return linkSubtree(nodes, 0, nodes.length, undefined)?.node;
+}
+
+/**
+ * Links a slice of sorted nodes into a balanced subtree.
+ * @param nodes The sorted nodes
+ * @param start Index of the first node in the slice
+ * @param end Index just past the last node in the slice
+ * @param parent The parent of the subtree root
+ * @returns The subtree root and its height, or undefined for an empty slice
+ */
+function linkSubtree<K, V>(
+    nodes: AvlTreeNode<K, V>[],
+    start: number,
+    end: number,
+    parent: AvlTreeNode<K, V> | undefined
+): { node: AvlTreeNode<K, V>; height: number } | undefined {
+    if (start >= end) {
+        return undefined;
+    }
+    const middle = Math.floor((start + end) / 2);
+    const node = nodes[middle];
+
+    const left = linkSubtree(nodes, start, middle, node);
+    const right = linkSubtree(nodes, middle + 1, end, node);
+    const leftHeight = left ? left.height : 0;
+    const rightHeight = right ? right.height : 0;
+
+    node.parent = parent;
+    node.left = left?.node;
+    node.right = right?.node;
+    node.balanceFactor = rightHeight - leftHeight;
+    node.size = end - start;
+
+    return { node, height: Math.max(leftHeight, rightHeight) + 1 };
 }
 
 /**
- * Prints tree horizontally
- * @param  root
- * @param  printNode
- * @return
+ * Formats a single node for `printTreeNode`.
+ */
+export type NodePrinter<K, V> = (node: AvlTreeNode<K, V>) => string;
+
+/**
+ * Prints tree horizontally, one node per line, with its children indented below it (left child first)
+ * @param root The root node of the (sub)tree to print
+ * @param printNode Formats a node (default: its key and balance factor, e.g. '100 [-1]')
+ * @returns The printed tree, with a line break after each node, or an empty string for an empty tree
  */
 export function printTreeNode<K, V>(
     root: AvlTreeNode<K, V> | undefined,
-    printNode: (node: AvlTreeNode<K, V>) => string = nodeToString
+    printNode: NodePrinter<K, V> = nodeToString
 ): string {
     const out: string[] = [];
     row(root, '', true, v => out.push(v), printNode);
@@ -284,7 +463,7 @@ function row<K, V>(
     prefix: string,
     isTail: boolean,
     out: (output: string) => void,
-    printNode: (node: AvlTreeNode<K, V>) => string
+    printNode: NodePrinter<K, V>
 ): void {
     if (root) {
         out(`${prefix}${isTail ? '└── ' : '├── '}${printNode(root)}\n`);
@@ -298,7 +477,19 @@ function row<K, V>(
     }
 }
 
-export function checkTree<K, V>(node: AvlTreeNode<K, V> | undefined): void {
+/**
+ * Checks the invariants of a tree, throwing an error on the first violation:
+ * parent links, balance factors, the AVL property and subtree sizes.
+ * When a compare function is given, the keys are also checked to be in strictly ascending order.
+ * @param node The root node of the (sub)tree to check
+ * @param compareFunction The compare function of the tree (optional)
+ * @param allowDuplicates Whether equal keys may follow each other
+ */
+export function checkTree<K, V>(
+    node: AvlTreeNode<K, V> | undefined,
+    compareFunction?: CompareFunction<K>,
+    allowDuplicates = false
+): void {
     if (!node) {
         return;
     }
@@ -325,10 +516,226 @@ export function checkTree<K, V>(node: AvlTreeNode<K, V> | undefined): void {
         throw new Error(`Balance factor of node ${node.key} is ${node.balanceFactor}, but should be ${balanceFactor}`);
     }
 
-    checkTree(node.left);
-    checkTree(node.right);
+    const size = getSize(node.left) + getSize(node.right) + 1;
+
+    /* istanbul ignore next */
+    if (size !== node.size) {
+        throw new Error(`Size of node ${node.key} is ${node.size}, but should be ${size}`);
+    }
+
+    if (compareFunction) {
+        // Checking each node against its in-order predecessor covers the ordering of the whole tree
+        const predecessor = node.predecessor();
+        const cmp = predecessor ? compareFunction(predecessor.key, node.key) : -1;
+        if (cmp > 0 || (cmp === 0 && !allowDuplicates)) {
+            throw new Error(`Key ${node.key} is not greater than the key of its predecessor ${predecessor?.key}`);
+        }
+    }
+
+    checkTree(node.left, compareFunction, allowDuplicates);
+    checkTree(node.right, compareFunction, allowDuplicates);
+}
+
+/**
+ * A node during the walk of `validateTree`, with the subtree it visits next.
+ */
+interface ValidationFrame<K, V> {
+    node: AvlTreeNode<K, V>;
+    stage: 'left' | 'right' | 'done';
+    leftHeight: number;
+    leftCount: number;
+}
+
+/**
+ * Checks all invariants of a tree in a single bottom-up pass, in O(n), and reports every violation it finds:
+ * parent links, balance factors, the AVL height bound, subtree sizes, strict key order and the size of the tree.
+ * @param root The root node of the tree
+ * @param compareFunction The compare function of the tree
+ * @param expectedSize The number of nodes the tree should have
+ * @param allowDuplicates Whether equal keys may follow each other
+ * @returns A report of the violations
+ */
+export function validateTree<K, V>(
+    root: AvlTreeNode<K, V> | undefined,
+    compareFunction: CompareFunction<K>,
+    expectedSize: number,
+    allowDuplicates = false
+): ValidationReport<K> {
+    const issues: ValidationIssue<K>[] = [];
+    const visited = new Set<AvlTreeNode<K, V>>();
+    let previous: AvlTreeNode<K, V> | undefined;
+
+    // The nodes being visited, using an explicit stack to support degenerate trees
+    const stack: ValidationFrame<K, V>[] = [];
+    // The height and the number of nodes of the last visited subtree
+    let subtree: [number, number] = [0, 0];
+
+    const enter = (node: AvlTreeNode<K, V> | undefined, parent: AvlTreeNode<K, V> | undefined): void => {
+        subtree = [0, 0];
+        if (!node) {
+            return;
+        }
+        if (visited.has(node)) {
+            // Following the links again would never end
+            issues.push({
+                kind: 'cycle',
+                key: node.key,
+                message: `Node ${node.key} is linked from more than one place`
+            });
+            return;
+        }
+        visited.add(node);
+        if (node.parent !== parent) {
+            issues.push({
+                kind: 'parent-link',
+                key: node.key,
+                message: parent
+                    ? `Node ${node.key} does not link back to its parent ${parent.key}`
+                    : `Root node ${node.key} has a parent`
+            });
+        }
+        stack.push({ node, stage: 'left', leftHeight: 0, leftCount: 0 });
+    };
+
+    enter(root, undefined);
+    while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const { node } = frame;
+
+        if (frame.stage === 'left') {
+            frame.stage = 'right';
+            enter(node.left, node);
+        } else if (frame.stage === 'right') {
+            [frame.leftHeight, frame.leftCount] = subtree;
+            if (previous) {
+                const cmp = compareFunction(previous.key, node.key);
+                if (cmp > 0 || (cmp === 0 && !allowDuplicates)) {
+                    issues.push({
+                        kind: 'key-order',
+                        key: node.key,
+                        message: `Key ${node.key} is not greater than the key of its predecessor ${previous.key}`
+                    });
+                }
+            }
+            previous = node;
+            frame.stage = 'done';
+            enter(node.right, node);
+        } else {
+            const [rightHeight, rightCount] = subtree;
+            const balanceFactor = rightHeight - frame.leftHeight;
+            if (balanceFactor < -1 || balanceFactor > 1) {
+                issues.push({
+                    kind: 'imbalance',
+                    key: node.key,
+                    message: `Computed balance factor of node ${node.key} is ${balanceFactor}, which is not AVL`
+                });
+            }
+            if (balanceFactor !== node.balanceFactor) {
+                issues.push({
+                    kind: 'balance-factor',
+                    key: node.key,
+                    message: `Balance factor of node ${node.key} is ${node.balanceFactor}, but should be ${balanceFactor}`
+                });
+            }
+            const count = frame.leftCount + rightCount + 1;
+            if (count !== node.size) {
+                issues.push({
+                    kind: 'node-size',
+                    key: node.key,
+                    message: `Size of node ${node.key} is ${node.size}, but should be ${count}`
+                });
+            }
+            stack.pop();
+            subtree = [Math.max(frame.leftHeight, rightHeight) + 1, count];
+        }
+    }
+
+    const [height, nodeCount] = subtree;
+
+    const maxHeight = maxAvlHeight(nodeCount);
+    if (height > maxHeight) {
+        issues.push({
+            kind: 'height-bound',
+            message: `Height of the tree is ${height}, but an AVL tree with ${nodeCount} nodes is at most ${maxHeight} high`
+        });
+    }
+    if (nodeCount !== expectedSize) {
+        issues.push({
+            kind: 'tree-size',
+            message: `Size of the tree is ${expectedSize}, but it has ${nodeCount} nodes`
+        });
+    }
+    return { valid: issues.length === 0, nodeCount, height, issues };
+}
+
+/**
+ * Computes the maximum height of an AVL tree with a number of nodes, from the minimum number of nodes
+ * for each height: a root with subtrees of the two heights below it.
+ */
+export function maxAvlHeight(nodeCount: number): number {
+    let height = 0;
+    let minNodes = 0;
+    let minNodesBelow = 0;
+    while (minNodes <= nodeCount) {
+        [minNodes, minNodesBelow] = [minNodes + minNodesBelow + 1, minNodes];
+        height += 1;
+    }
+    return height - 1;
 }
 
+/**
+ * Computes the minimum height of a binary tree with a number of nodes: that of a perfectly balanced tree.
+ */
+export function minBinaryTreeHeight(nodeCount: number): number {
+    let height = 0;
+    for (let capacity = 0; capacity < nodeCount; capacity = capacity * 2 + 1) {
+        height += 1;
+    }
+    return height;
+}
+
+/**
+ * Measures the shape of a tree by visiting all of its nodes, in O(n).
+ * @param root The root node of the tree
+ * @returns The height, the number of leaves, the balance factors and the depths of the nodes
+ */
+export function measureTree<K, V>(root: AvlTreeNode<K, V> | undefined): TreeShape {
+    const balanceFactors: Record<number, number> = { [-1]: 0, 0: 0, 1: 0 };
+    let leafCount = 0;
+    let nodeCount = 0;
+    let depthSum = 0;
+    let maxDepth = 0;
+
+    if (!root) {
+        return { height: 0, leafCount, balanceFactors, averageDepth: 0, maxDepth };
+    }
+
+    // Nodes with their depths, using an explicit stack to support degenerate trees
+    const stack: [AvlTreeNode<K, V>, number][] = [[root, 0]];
+    while (stack.length > 0) {
+        const [node, depth] = stack.pop() as [AvlTreeNode<K, V>, number];
+        nodeCount += 1;
+        depthSum += depth;
+        maxDepth = Math.max(maxDepth, depth);
+        balanceFactors[node.balanceFactor] = (balanceFactors[node.balanceFactor] ?? 0) + 1;
+        if (!node.left && !node.right) {
+            leafCount += 1;
+        }
+        if (node.right) {
+            stack.push([node.right, depth + 1]);
+        }
+        if (node.left) {
+            stack.push([node.left, depth + 1]);
+        }
+    }
+    return { height: maxDepth + 1, leafCount, balanceFactors, averageDepth: depthSum / nodeCount, maxDepth };
+}
+
+/**
+ * Computes the height of a (sub)tree by following the child links, in O(n).
+ * @param node The root node of the (sub)tree
+ * @returns The number of nodes on the longest path down from the node, or 0 for an empty tree
+ */
 export function computeHeight<K, V>(node: AvlTreeNode<K, V> | undefined): number {
     if (!node) {
         return 0;
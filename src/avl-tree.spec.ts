@@ -1,4 +1,4 @@
-import { AvlTree } from './avl-tree';
+import { Augmentation, AvlTree, defaultCompareFunction } from './avl-tree';
 import { AvlTreeNode } from './avl-tree-node';
 import { checkTree } from './avl-tree-utils';
 
@@ -10,6 +10,104 @@ describe('AvlTree', () => {
         expect(tree.size).toBe(0);
     });
 
+    describe('fromSorted', () => {
+        it('builds a balanced tree from sorted entries', () => {
+            repeat(40, count => {
+                const entries = repeat(count, i => [i, `${i}`] as [number, string]);
+                const tree = AvlTree.fromSorted(entries);
+
+                checkTree(tree.root);
+                expect(tree.size).toBe(count);
+                expect(tree.entryList()).toEqual(entries);
+            });
+        });
+
+        it('builds a tree that can be modified afterwards', () => {
+            const tree = AvlTree.fromSorted(repeat(100, i => [i * 2, i] as [number, number]));
+            repeat(100, i => tree.insert(i * 2 + 1, i));
+            checkTree(tree.root);
+            repeat(50, i => tree.delete(i * 4));
+            checkTree(tree.root);
+            expect(tree.size).toBe(150);
+            expect(tree.at(0)?.[0]).toBe(1);
+        });
+
+        it('uses the compare function', () => {
+            const tree = AvlTree.fromSorted(
+                [
+                    [3, 'c'],
+                    [2, 'b'],
+                    [1, 'a']
+                ],
+                (a: number, b: number) => b - a
+            );
+            expect(tree.keyList()).toEqual([3, 2, 1]);
+            expect(tree.get(2)).toBe('b');
+        });
+
+        it('throws an error when the entries are not sorted', () => {
+            expect(() =>
+                AvlTree.fromSorted([
+                    [1, 1],
+                    [3, 3],
+                    [2, 2]
+                ])
+            ).toThrowError('Entries are not in strictly ascending order: 3 is followed by 2');
+            expect(() =>
+                AvlTree.fromSorted([
+                    [1, 1],
+                    [1, 1]
+                ])
+            ).toThrowError('Entries are not in strictly ascending order: 1 is followed by 1');
+        });
+    });
+
+    describe('from', () => {
+        it('builds a balanced tree from unsorted entries', () => {
+            const entries = shuffleList(repeat(200, i => [i, i * i] as [number, number]));
+            const tree = AvlTree.from(entries);
+
+            checkTree(tree.root);
+            expect(tree.size).toBe(200);
+            expect(tree.keyList()).toEqual(repeat(200, i => i));
+            expect(tree.get(10)).toBe(100);
+        });
+
+        it('builds a balanced tree from sorted entries', () => {
+            const tree = AvlTree.from(new Map(repeat(20, i => [i, i] as [number, number])));
+            checkTree(tree.root);
+            expect(tree.size).toBe(20);
+        });
+
+        it('throws an error on duplicate keys', () => {
+            expect(() =>
+                AvlTree.from([
+                    [2, 'a'],
+                    [1, 'b'],
+                    [2, 'c']
+                ])
+            ).toThrowError('Key already exists: 2');
+        });
+
+        it('keeps the last value of duplicate keys when duplicates are replaced', () => {
+            const tree = AvlTree.from(
+                [
+                    [2, 'a'],
+                    [1, 'b'],
+                    [2, 'c'],
+                    [1, 'd']
+                ],
+                undefined,
+                { duplicates: 'replace' }
+            );
+            checkTree(tree.root);
+            expect(tree.entryList()).toEqual([
+                [1, 'd'],
+                [2, 'c']
+            ]);
+        });
+    });
+
     describe('clear', () => {
         it('clears the tree', () => {
             const tree = new AvlTree();
@@ -38,6 +136,30 @@ describe('AvlTree', () => {
             tree.set(1, 2);
             expect(() => tree.set(1, 100)).toThrowError('Key already exists: 1');
         });
+
+        it('replaces the value of an existing key when duplicates are replaced', () => {
+            const tree = new AvlTree<number, string>(undefined, { duplicates: 'replace' });
+            tree.set(1, 'one').set(2, 'two');
+            const node = tree.getNode(1);
+
+            tree.set(1, 'uno');
+
+            expect(tree.size).toBe(2);
+            expect(tree.get(1)).toBe('uno');
+            expect(tree.getNode(1)).toBe(node);
+            expect(node?.value).toBe('uno');
+        });
+
+        it('can be used as a Map when duplicates are replaced', () => {
+            const fillMap = (map: Map<string, number>): Map<string, number> => map.set('b', 1).set('a', 2).set('b', 3);
+
+            const tree = fillMap(new AvlTree<string, number>(undefined, { duplicates: 'replace' }));
+
+            expect(Array.from(tree.entries())).toEqual([
+                ['a', 2],
+                ['b', 3]
+            ]);
+        });
     });
 
     describe('insert', () => {
@@ -217,6 +339,106 @@ describe('AvlTree', () => {
         });
     });
 
+    describe('upsert', () => {
+        it('inserts a new node', () => {
+            const tree = new AvlTree<string, number>();
+            const fn = jest.fn((existing?: number) => (existing ?? 0) + 1);
+
+            const node = tree.upsert('a', fn);
+
+            expect(fn).toHaveBeenCalledWith();
+            expect(node.value).toBe(1);
+            expect(tree.get('a')).toBe(1);
+            expect(tree.size).toBe(1);
+        });
+
+        it('updates an existing node in place', () => {
+            const tree = new AvlTree<string, number>();
+            const node = tree.insert('a', 1);
+
+            expect(tree.upsert('a', existing => (existing ?? 0) + 1)).toBe(node);
+            expect(tree.get('a')).toBe(2);
+            expect(tree.size).toBe(1);
+        });
+
+        it('counts occurrences', () => {
+            const tree = new AvlTree<string, number>();
+            for (const word of ['b', 'a', 'b', 'c', 'b', 'a']) {
+                tree.upsert(word, count => (count ?? 0) + 1);
+            }
+            checkTree(tree.root);
+            expect(tree.entryList()).toEqual([
+                ['a', 2],
+                ['b', 3],
+                ['c', 1]
+            ]);
+        });
+    });
+
+    describe('getOrInsert', () => {
+        it('inserts a value created by the factory', () => {
+            const tree = new AvlTree<string, string[]>();
+            const node = tree.getOrInsert('a', () => []);
+            node.value.push('x');
+
+            expect(tree.get('a')).toEqual(['x']);
+        });
+
+        it('returns the existing node without calling the factory', () => {
+            const tree = new AvlTree<string, string[]>();
+            const existing = tree.insert('a', ['x']);
+            const factory = jest.fn(() => []);
+
+            expect(tree.getOrInsert('a', factory)).toBe(existing);
+            expect(factory).not.toHaveBeenCalled();
+            expect(tree.size).toBe(1);
+        });
+
+        it('inserts at the right spot when the factory modifies the tree', () => {
+            const tree = new AvlTree<number, number>();
+            tree.set(1, 1).set(2, 2);
+            const factory = jest.fn(() => {
+                tree.set(3, 3);
+                return 4;
+            });
+
+            expect(tree.getOrInsert(4, factory).value).toBe(4);
+            expect(factory).toHaveBeenCalledTimes(1);
+            expect(tree.keyList()).toEqual([1, 2, 3, 4]);
+            expect(tree.validate().valid).toBe(true);
+        });
+
+        it('returns the node inserted by the factory for the same key', () => {
+            const tree = new AvlTree<number, number>();
+            const inserted = tree.getOrInsert(1, () => {
+                tree.set(1, 10);
+                return 1;
+            });
+
+            expect(inserted.value).toBe(10);
+            expect(tree.size).toBe(1);
+        });
+    });
+
+    describe('update', () => {
+        it('updates an existing value', () => {
+            const tree = new AvlTree<string, number>();
+            const existing = tree.insert('a', 1);
+
+            expect(tree.update('a', value => value * 10)).toBe(existing);
+            expect(tree.get('a')).toBe(10);
+        });
+
+        it('does nothing when the key is not present', () => {
+            const tree = new AvlTree<string, number>();
+            const fn = jest.fn((value: number) => value);
+
+            expect(tree.update('a', fn)).toBeUndefined();
+            expect(fn).not.toHaveBeenCalled();
+            expect(tree.size).toBe(0);
+        });
+    });
+
     describe('delete', () => {
         it('removes a leaf node', () => {
             /**
@@ -730,6 +952,71 @@ describe('AvlTree', () => {
         });
     });
 
+    describe('fromJSON', () => {
+        it('recreates a tree with the same shape', () => {
+            const tree = new AvlTree<number, string>();
+            shuffleList(repeat(100, i => i)).forEach(i => tree.insert(i, `${i}`));
+
+            const copy = AvlTree.fromJSON<number, string>(JSON.parse(JSON.stringify(tree)));
+
+            checkTree(copy.root);
+            expect(copy.size).toBe(100);
+            expect(copy.toJSON()).toEqual(tree.toJSON());
+            expect(copy.toString()).toBe(tree.toString());
+            expect(copy.at(50)).toEqual([50, '50']);
+        });
+
+        it('recreates an empty tree', () => {
+            const tree = AvlTree.fromJSON(new AvlTree<number, number>().toJSON());
+            expect(tree.size).toBe(0);
+            expect(tree.root).toBeUndefined();
+        });
+
+        it('uses the compare function', () => {
+            const compareFunction = (a: number, b: number): number => b - a;
+            const tree = new AvlTree<number, number>(compareFunction);
+            repeat(10, i => tree.insert(i, i));
+
+            const copy = AvlTree.fromJSON(tree.toJSON(), compareFunction);
+            expect(copy.keyList()).toEqual(tree.keyList());
+            expect(() => AvlTree.fromJSON(tree.toJSON())).toThrowError(
+                'Invalid AVL tree JSON: Key 3 is not greater than the key of its predecessor 4'
+            );
+        });
+
+        it('throws an error on incorrect balance factors', () => {
+            const json = { key: 2, value: 2, balanceFactor: 0, left: { key: 1, value: 1, balanceFactor: 0 } };
+            expect(() => AvlTree.fromJSON(json)).toThrowError(
+                'Invalid AVL tree JSON: Balance factor of node 2 is 0, but should be -1'
+            );
+        });
+
+        it('throws an error on trees that are not AVL', () => {
+            const json = {
+                key: 3,
+                value: 3,
+                balanceFactor: -2,
+                left: { key: 2, value: 2, balanceFactor: -1, left: { key: 1, value: 1, balanceFactor: 0 } }
+            };
+            expect(() => AvlTree.fromJSON(json)).toThrowError(
+                'Invalid AVL tree JSON: Computed balance factor of node 3 is -2, which is not AVL'
+            );
+        });
+
+        it('throws an error on keys that are out of order', () => {
+            const json = {
+                key: 2,
+                value: 2,
+                balanceFactor: 0,
+                left: { key: 1, value: 1, balanceFactor: 0 },
+                right: { key: 0, value: 0, balanceFactor: 0 }
+            };
+            expect(() => AvlTree.fromJSON(json)).toThrowError(
+                'Invalid AVL tree JSON: Key 0 is not greater than the key of its predecessor 2'
+            );
+        });
+    });
+
     describe('has', () => {
         it('checks if a key exists in the tree', () => {
             const tree = new AvlTree<number, string>();
@@ -828,6 +1115,60 @@ describe('AvlTree', () => {
 
             expect(() => tree.at(3)).toThrow('Index out of bounds: 3');
         });
+
+        it('finds every index after random insertions and deletions', () => {
+            const items = shuffleList(repeat(200, i => i));
+            const tree = new AvlTree<number, number>();
+            for (const item of items) {
+                tree.insert(item, item);
+            }
+            for (const item of items.slice(0, 100)) {
+                tree.delete(item);
+            }
+            checkTree(tree.root);
+
+            const keys = tree.keyList();
+            keys.forEach((key, index) => {
+                expect(tree.at(index)?.[0]).toBe(key);
+                expect(tree.nodeAt(index).key).toBe(key);
+            });
+        });
+    });
+
+    describe('rankOf', () => {
+        it('counts the keys that are less than a key', () => {
+            const tree = new AvlTree<number, string>();
+            tree.insert(100, '100');
+            tree.insert(50, '50');
+            tree.insert(150, '150');
+            tree.insert(125, '125');
+            tree.insert(200, '200');
+            tree.insert(40, '40');
+
+            expect(tree.rankOf(40)).toBe(0);
+            expect(tree.rankOf(100)).toBe(2);
+            expect(tree.rankOf(200)).toBe(5);
+
+            expect(tree.rankOf(0)).toBe(0);
+            expect(tree.rankOf(101)).toBe(3);
+            expect(tree.rankOf(1000)).toBe(6);
+        });
+
+        it('handles the empty tree case', () => {
+            expect(new AvlTree<number, number>().rankOf(1)).toBe(0);
+        });
+    });
+
+    describe('indexOf', () => {
+        it('gets the index of a node', () => {
+            const tree = new AvlTree<number, number>();
+            const nodes = shuffleList(repeat(100, i => i)).map(i => tree.insert(i, i) as AvlTreeNode<number, number>);
+
+            for (const node of nodes) {
+                expect(tree.indexOf(node)).toBe(node.key);
+                expect(node.rank()).toBe(node.key);
+            }
+        });
     });
 
     describe('minNode', () => {
@@ -878,6 +1219,136 @@ describe('AvlTree', () => {
         });
     });
 
+    describe('floor, ceiling, lower and higher', () => {
+        const createTree = (): AvlTree<number, string> => {
+            const tree = new AvlTree<number, string>();
+            tree.insert(100, '100');
+            tree.insert(50, '50');
+            tree.insert(150, '150');
+            tree.insert(125, '125');
+            tree.insert(200, '200');
+            tree.insert(40, '40');
+            return tree;
+        };
+
+        it('finds the greatest key less than or equal to a key', () => {
+            const tree = createTree();
+            expect(tree.floorKey(100)).toBe(100);
+            expect(tree.floorKey(99)).toBe(50);
+            expect(tree.floorKey(1000)).toBe(200);
+            expect(tree.floorKey(39)).toBeUndefined();
+            expect(tree.floorValue(130)).toBe('125');
+            expect(tree.floorEntry(130)).toEqual([125, '125']);
+            expect(tree.floorEntry(0)).toBeUndefined();
+        });
+
+        it('finds the smallest key greater than or equal to a key', () => {
+            const tree = createTree();
+            expect(tree.ceilingKey(100)).toBe(100);
+            expect(tree.ceilingKey(101)).toBe(125);
+            expect(tree.ceilingKey(0)).toBe(40);
+            expect(tree.ceilingKey(201)).toBeUndefined();
+            expect(tree.ceilingValue(45)).toBe('50');
+            expect(tree.ceilingEntry(45)).toEqual([50, '50']);
+            expect(tree.ceilingEntry(201)).toBeUndefined();
+        });
+
+        it('finds the greatest key strictly less than a key', () => {
+            const tree = createTree();
+            expect(tree.lowerKey(100)).toBe(50);
+            expect(tree.lowerKey(101)).toBe(100);
+            expect(tree.lowerKey(40)).toBeUndefined();
+            expect(tree.lowerValue(200)).toBe('150');
+            expect(tree.lowerEntry(200)).toEqual([150, '150']);
+            expect(tree.lowerEntry(40)).toBeUndefined();
+        });
+
+        it('finds the smallest key strictly greater than a key', () => {
+            const tree = createTree();
+            expect(tree.higherKey(100)).toBe(125);
+            expect(tree.higherKey(99)).toBe(100);
+            expect(tree.higherKey(200)).toBeUndefined();
+            expect(tree.higherValue(40)).toBe('50');
+            expect(tree.higherEntry(40)).toEqual([50, '50']);
+            expect(tree.higherEntry(200)).toBeUndefined();
+        });
+
+        it('handles the empty tree case', () => {
+            const tree = new AvlTree<number, string>();
+            expect(tree.floorNode(1)).toBeUndefined();
+            expect(tree.ceilingNode(1)).toBeUndefined();
+            expect(tree.lowerNode(1)).toBeUndefined();
+            expect(tree.higherNode(1)).toBeUndefined();
+        });
+
+        it('uses the compare function of the tree', () => {
+            const tree = new AvlTree<number, number>((a, b) => b - a);
+            repeat(10, i => tree.insert(i * 10, i));
+
+            expect(tree.floorKey(35)).toBe(40);
+            expect(tree.ceilingKey(35)).toBe(30);
+            expect(tree.lowerKey(40)).toBe(50);
+            expect(tree.higherKey(40)).toBe(30);
+        });
+    });
+
+    describe('range', () => {
+        const createTree = (): AvlTree<number, string> => {
+            const tree = new AvlTree<number, string>();
+            repeat(10, i => tree.insert(i * 10, `${i * 10}`));
+            return tree;
+        };
+
+        it('iterates over an inclusive range', () => {
+            const tree = createTree();
+            expect(Array.from(tree.range(20, 50))).toEqual([
+                [20, '20'],
+                [30, '30'],
+                [40, '40'],
+                [50, '50']
+            ]);
+        });
+
+        it('respects exclusive bounds', () => {
+            const tree = createTree();
+            const range = tree.range(20, 50, { fromInclusive: false, toInclusive: false });
+            expect(Array.from(range).map(([key]) => key)).toEqual([30, 40]);
+        });
+
+        it('handles bounds that are not present in the tree', () => {
+            const tree = createTree();
+            expect(Array.from(tree.range(15, 45)).map(([key]) => key)).toEqual([20, 30, 40]);
+            expect(Array.from(tree.range(-100, 5)).map(([key]) => key)).toEqual([0]);
+            expect(Array.from(tree.range(91, 200)).map(([key]) => key)).toEqual([]);
+        });
+
+        it('supports open-ended ranges', () => {
+            const tree = createTree();
+            expect(Array.from(tree.range(70)).map(([key]) => key)).toEqual([70, 80, 90]);
+            expect(Array.from(tree.range(undefined, 20)).map(([key]) => key)).toEqual([0, 10, 20]);
+            expect(Array.from(tree.range()).map(([key]) => key)).toEqual(tree.keyList());
+        });
+
+        it('iterates in reverse', () => {
+            const tree = createTree();
+            expect(Array.from(tree.range(20, 50, { reverse: true })).map(([key]) => key)).toEqual([50, 40, 30, 20]);
+            expect(
+                Array.from(tree.range(20, 50, { reverse: true, fromInclusive: false, toInclusive: false })).map(
+                    ([key]) => key
+                )
+            ).toEqual([40, 30]);
+            expect(Array.from(tree.range(undefined, 15, { reverse: true })).map(([key]) => key)).toEqual([10, 0]);
+            expect(Array.from(tree.range(75, undefined, { reverse: true })).map(([key]) => key)).toEqual([90, 80]);
+        });
+
+        it('yields nothing for an empty range', () => {
+            const tree = createTree();
+            expect(Array.from(tree.range(50, 20))).toEqual([]);
+            expect(Array.from(tree.range(50, 50, { toInclusive: false }))).toEqual([]);
+            expect(Array.from(new AvlTree<number, number>().range(0, 10))).toEqual([]);
+        });
+    });
+
     describe('iterator', () => {
         it('iterates over all of the nodes', () => {
             const tree = new AvlTree<number, string>();
@@ -896,6 +1367,147 @@ describe('AvlTree', () => {
             expect(results).toHaveLength(6);
             expect(results.map(([key]) => key)).toEqual([40, 50, 100, 125, 150, 200]);
         });
+
+        it('throws an error when the tree is modified during iteration', () => {
+            const createTree = (): AvlTree<number, number> => AvlTree.from(repeat(10, i => [i, i] as [number, number]));
+            const message = 'Tree was modified during iteration';
+
+            expect(() => {
+                const tree = createTree();
+                for (const [key] of tree) {
+                    tree.delete(key + 1);
+                }
+            }).toThrowError(message);
+            expect(() => {
+                const tree = createTree();
+                tree.forEach((_value, key) => tree.insert(key + 100, 0));
+            }).toThrowError(message);
+            expect(() => {
+                const tree = createTree();
+                tree.walk(([key]) => tree.delete(key), { reverse: true });
+            }).toThrowError(message);
+            expect(() => {
+                const tree = createTree();
+                tree.map(() => tree.clear());
+            }).toThrowError(message);
+            expect(() => {
+                const tree = createTree();
+                for (const [key] of tree.range(2, 5)) {
+                    tree.delete(key);
+                }
+            }).toThrowError(message);
+        });
+
+        it('allows value updates during iteration', () => {
+            const tree = AvlTree.from(repeat(10, i => [i, i] as [number, number]));
+            for (const [key] of tree) {
+                tree.update(key, value => value * 2);
+            }
+            expect(tree.valueList()).toEqual(repeat(10, i => i * 2));
+        });
+
+        it('removes entries through a safe iterator', () => {
+            const tree = AvlTree.from(repeat(100, i => [i, i] as [number, number]));
+            const iterator = tree.iterator();
+            const visited: number[] = [];
+            for (const [key] of iterator) {
+                visited.push(key);
+                if (key % 3 !== 0) {
+                    iterator.remove();
+                }
+            }
+
+            checkTree(tree.root, defaultCompareFunction);
+            expect(visited).toEqual(repeat(100, i => i));
+            expect(tree.keyList()).toEqual(repeat(34, i => i * 3));
+        });
+
+        it('throws an error when removing without a current entry', () => {
+            const tree = AvlTree.from([[1, 1]] as [number, number][]);
+            const iterator = tree.iterator();
+            const message = 'Nothing to remove: call next() first, and remove each entry only once';
+
+            expect(() => iterator.remove()).toThrowError(message);
+            iterator.next();
+            iterator.remove();
+            expect(() => iterator.remove()).toThrowError(message);
+            expect(iterator.next().done).toBe(true);
+        });
+
+        it('fails fast when the tree is modified outside a safe iterator', () => {
+            const tree = AvlTree.from([[1, 1]] as [number, number][]);
+            const iterator = tree.iterator();
+            tree.insert(2, 2);
+            expect(() => iterator.next()).toThrowError('Tree was modified during iteration');
+        });
+    });
+
+    describe('reverse iteration', () => {
+        const createTree = (): AvlTree<number, string> => {
+            const tree = new AvlTree<number, string>();
+            tree.insert(100, '100');
+            tree.insert(50, '50');
+            tree.insert(150, '150');
+            tree.insert(125, '125');
+            tree.insert(200, '200');
+            tree.insert(40, '40');
+            return tree;
+        };
+
+        it('iterates over entries in descending order', () => {
+            const tree = createTree();
+            expect(Array.from(tree.reverseEntries())).toEqual(tree.entryList().reverse());
+        });
+
+        it('iterates over keys and values in descending order', () => {
+            const tree = createTree();
+            expect(Array.from(tree.reverseKeys())).toEqual([200, 150, 125, 100, 50, 40]);
+            expect(Array.from(tree.reverseValues())).toEqual(['200', '150', '125', '100', '50', '40']);
+        });
+
+        it('handles the empty tree case', () => {
+            expect(Array.from(new AvlTree<number, number>().reverseEntries())).toEqual([]);
+        });
+    });
+
+    describe('walk', () => {
+        it('walks in ascending order until done', () => {
+            const tree = new AvlTree<number, number>();
+            repeat(10, i => tree.insert(i, i * i));
+
+            const visited: [number, number, number][] = [];
+            tree.walk(([key, value], index, done) => {
+                visited.push([key, value, index]);
+                if (key === 2) {
+                    done();
+                }
+            });
+            expect(visited).toEqual([
+                [0, 0, 0],
+                [1, 1, 1],
+                [2, 4, 2]
+            ]);
+        });
+
+        it('walks in descending order with in-order indices', () => {
+            const tree = new AvlTree<number, number>();
+            repeat(10, i => tree.insert(i, i * i));
+
+            const visited: [number, number, number][] = [];
+            tree.walk(
+                ([key, value], index, done) => {
+                    visited.push([key, value, index]);
+                    if (key === 8) {
+                        done();
+                    }
+                },
+                { reverse: true }
+            );
+            expect(visited).toEqual([
+                [9, 81, 9],
+                [8, 64, 8]
+            ]);
+        });
     });
 
     describe('predecessor', () => {
@@ -980,6 +1592,932 @@ describe('AvlTree', () => {
         });
     });
 
+    describe('split', () => {
+        it('splits a tree at a key', () => {
+            repeat(30, count => {
+                repeat(count + 1, at => {
+                    const tree = AvlTree.from(repeat(count, i => [i * 2, i] as [number, number]));
+                    const [left, right] = tree.split(at * 2 - 1);
+
+                    checkTree(left.root, (a, b) => a - b);
+                    checkTree(right.root, (a, b) => a - b);
+                    expect(left.keyList()).toEqual(repeat(at, i => i * 2));
+                    expect(right.keyList()).toEqual(repeat(count - at, i => (i + at) * 2));
+                    expect(left.size + right.size).toBe(count);
+                });
+            });
+        });
+
+        it('puts an equal key on the right by default', () => {
+            const tree = AvlTree.from(repeat(10, i => [i, i] as [number, number]));
+            const [left, right] = tree.split(5);
+            expect(left.maxKey()).toBe(4);
+            expect(right.minKey()).toBe(5);
+        });
+
+        it('can put an equal key on the left', () => {
+            const tree = AvlTree.from(repeat(10, i => [i, i] as [number, number]));
+            const [left, right] = tree.split(5, { equalKey: 'left' });
+            checkTree(left.root);
+            expect(left.maxKey()).toBe(5);
+            expect(right.minKey()).toBe(6);
+        });
+
+        it('keeps node identities and empties the original tree', () => {
+            const tree = new AvlTree<number, string>();
+            const nodes = shuffleList(repeat(50, i => i)).map(i => tree.insert(i, `${i}`));
+
+            const [left, right] = tree.split(20);
+
+            expect(tree.size).toBe(0);
+            expect(tree.root).toBeUndefined();
+            for (const node of nodes) {
+                const side = node && node.key < 20 ? left : right;
+                expect(side.getNode(node?.key as number)).toBe(node);
+            }
+        });
+    });
+
+    describe('join', () => {
+        it('joins trees of any size', () => {
+            repeat(20, leftCount => {
+                repeat(20, rightCount => {
+                    const left = AvlTree.from(repeat(leftCount, i => [i, i] as [number, number]));
+                    const right = AvlTree.from(repeat(rightCount, i => [leftCount + i, i] as [number, number]));
+
+                    const joined = AvlTree.join(left, right);
+
+                    checkTree(joined.root, (a, b) => a - b);
+                    expect(joined.keyList()).toEqual(repeat(leftCount + rightCount, i => i));
+                    expect(left.size).toBe(0);
+                    expect(right.size).toBe(0);
+                });
+            });
+        });
+
+        it('joins trees with very different heights', () => {
+            const left = new AvlTree<number, number>();
+            repeat(5, i => left.insert(i, i));
+            const right = new AvlTree<number, number>();
+            shuffleList(repeat(1000, i => i + 5)).forEach(i => right.insert(i, i));
+
+            const joined = AvlTree.join(left, right);
+
+            checkTree(joined.root);
+            expect(joined.size).toBe(1005);
+            expect(joined.at(500)?.[0]).toBe(500);
+        });
+
+        it('keeps node identities', () => {
+            const left = new AvlTree<number, number>();
+            const right = new AvlTree<number, number>();
+            const leftNode = left.insert(1, 1);
+            const middleNode = right.insert(2, 2);
+            const rightNode = right.insert(3, 3);
+
+            const joined = AvlTree.join(left, right);
+
+            expect(joined.getNode(1)).toBe(leftNode);
+            expect(joined.getNode(2)).toBe(middleNode);
+            expect(joined.getNode(3)).toBe(rightNode);
+        });
+
+        it('throws an error when the key ranges overlap', () => {
+            const left = AvlTree.from([
+                [1, 1],
+                [5, 5]
+            ]);
+            const right = AvlTree.from([
+                [3, 3],
+                [7, 7]
+            ]);
+            expect(() => AvlTree.join(left, right)).toThrowError(
+                'Cannot join trees: key 5 of the left tree is not less than key 3'
+            );
+            expect(left.size).toBe(2);
+            expect(right.size).toBe(2);
+        });
+
+        it('is the inverse of split', () => {
+            let tree = new AvlTree<number, number>();
+            shuffleList(repeat(300, i => i)).forEach(i => tree.insert(i, i));
+            repeat(20, () => {
+                const [left, right] = tree.split(Math.floor(Math.random() * 300));
+                tree = AvlTree.join(left, right);
+                checkTree(tree.root);
+                expect(tree.keyList()).toEqual(repeat(300, i => i));
+            });
+        });
+    });
+
+    describe('set operations', () => {
+        const createTrees = (): [AvlTree<number, string>, AvlTree<number, string>] => [
+            AvlTree.from([1, 2, 3, 5, 8].map(i => [i, `a${i}`] as [number, string])),
+            AvlTree.from([2, 3, 4, 8, 9].map(i => [i, `b${i}`] as [number, string]))
+        ];
+
+        it('creates a union', () => {
+            const [a, b] = createTrees();
+            const union = a.union(b);
+
+            checkTree(union.root);
+            expect(union.entryList()).toEqual([
+                [1, 'a1'],
+                [2, 'a2'],
+                [3, 'a3'],
+                [4, 'b4'],
+                [5, 'a5'],
+                [8, 'a8'],
+                [9, 'b9']
+            ]);
+            expect(a.size).toBe(5);
+            expect(b.size).toBe(5);
+        });
+
+        it('resolves conflicting values in a union', () => {
+            const [a, b] = createTrees();
+            const union = AvlTree.union(a, b, (key, left, right) => `${key}:${left}+${right}`);
+            expect(union.get(2)).toBe('2:a2+b2');
+            expect(union.get(1)).toBe('a1');
+        });
+
+        it('creates an intersection', () => {
+            const [a, b] = createTrees();
+            expect(a.intersection(b).entryList()).toEqual([
+                [2, 'a2'],
+                [3, 'a3'],
+                [8, 'a8']
+            ]);
+            expect(AvlTree.intersection(b, a).valueList()).toEqual(['b2', 'b3', 'b8']);
+        });
+
+        it('creates a difference', () => {
+            const [a, b] = createTrees();
+            expect(a.difference(b).keyList()).toEqual([1, 5]);
+            expect(AvlTree.difference(b, a).keyList()).toEqual([4, 9]);
+        });
+
+        it('creates a symmetric difference', () => {
+            const [a, b] = createTrees();
+            const result = a.symmetricDifference(b);
+            checkTree(result.root);
+            expect(result.entryList()).toEqual([
+                [1, 'a1'],
+                [4, 'b4'],
+                [5, 'a5'],
+                [9, 'b9']
+            ]);
+        });
+
+        it('handles empty trees', () => {
+            const [a] = createTrees();
+            const empty = new AvlTree<number, string>();
+            expect(a.union(empty).keyList()).toEqual(a.keyList());
+            expect(empty.union(a).keyList()).toEqual(a.keyList());
+            expect(a.intersection(empty).size).toBe(0);
+            expect(a.difference(empty).keyList()).toEqual(a.keyList());
+            expect(empty.symmetricDifference(a).keyList()).toEqual(a.keyList());
+        });
+
+        it('uses the compare function and options of the left tree', () => {
+            const descending = (x: number, y: number): number => y - x;
+            const a = new AvlTree<number, string>(descending, { duplicates: 'replace' });
+            a.set(1, 'a1').set(3, 'a3');
+            const [, b] = createTrees();
+
+            const union = a.union(b);
+
+            checkTree(union.root, descending);
+            expect(union.keyList()).toEqual([9, 8, 4, 3, 2, 1]);
+            expect(() => union.set(1, 'x')).not.toThrow();
+        });
+
+        it('removes duplicate keys of the right tree that the left tree does not allow', () => {
+            const multimap = new AvlTree<number, string>(undefined, { duplicates: 'allow' });
+            multimap.set(1, 'b1').set(1, 'b1 again').set(2, 'b2');
+
+            const replacing = new AvlTree<number, string>(undefined, { duplicates: 'replace' });
+            const union = replacing.union(multimap);
+            expect(union.validate().valid).toBe(true);
+            expect(union.entryList()).toEqual([
+                [1, 'b1 again'],
+                [2, 'b2']
+            ]);
+            expect(replacing.symmetricDifference(multimap).validate().valid).toBe(true);
+
+            expect(() => new AvlTree<number, string>().union(multimap)).toThrowError('Key already exists: 1');
+            expect(multimap.union(multimap).size).toBe(3);
+        });
+    });
+
+    describe('duplicate keys', () => {
+        const createMultimap = (): AvlTree<number, string> =>
+            new AvlTree<number, string>(undefined, { duplicates: 'allow' });
+
+        it('keeps equal keys in insertion order', () => {
+            const tree = createMultimap();
+            tree.set(2, 'a').set(1, 'b').set(2, 'c').set(3, 'd').set(2, 'e');
+
+            checkTree(tree.root, defaultCompareFunction, true);
+            expect(tree.size).toBe(5);
+            expect(tree.entryList()).toEqual([
+                [1, 'b'],
+                [2, 'a'],
+                [2, 'c'],
+                [2, 'e'],
+                [3, 'd']
+            ]);
+            expect(tree.get(2)).toBe('a');
+            expect(tree.getAll(2)).toEqual(['a', 'c', 'e']);
+            expect(tree.getAll(4)).toEqual([]);
+        });
+
+        it('updates the first of the equal keys', () => {
+            const tree = createMultimap();
+            for (const value of ['a', 'b', 'c', 'd', 'e']) {
+                tree.set(1, value);
+            }
+
+            expect(tree.getOrInsert(1, () => 'x')).toBe(tree.getNode(1));
+            expect(tree.upsert(1, value => `${value}!`)).toBe(tree.getNode(1));
+            expect(tree.getAll(1)).toEqual(['a!', 'b', 'c', 'd', 'e']);
+        });
+
+        it('stays balanced with many duplicates', () => {
+            const tree = createMultimap();
+            const keys = shuffleList(repeat(300, i => i % 10));
+            keys.forEach((key, i) => {
+                tree.insert(key, `${i}`);
+            });
+
+            checkTree(tree.root, defaultCompareFunction, true);
+            for (let key = 0; key < 10; key += 1) {
+                const expected = keys.map((k, i) => [k, `${i}`]).filter(([k]) => k === key);
+                expect(tree.getAll(key)).toEqual(expected.map(([, value]) => value));
+                expect(tree.count(key)).toBe(30);
+                expect(tree.rankOf(key)).toBe(key * 30);
+            }
+            expect(tree.count(10)).toBe(0);
+        });
+
+        it('keeps node identity when deleting a single entry', () => {
+            const tree = createMultimap();
+            const nodes = repeat(20, i => tree.insert(1, `${i}`) as AvlTreeNode<number, string>);
+
+            tree.deleteOne(nodes[7]);
+            tree.deleteNode(nodes[0]);
+
+            checkTree(tree.root, defaultCompareFunction, true);
+            expect(tree.count(1)).toBe(18);
+            expect(nodes[8].value).toBe('8');
+            expect(tree.indexOf(nodes[8])).toBe(6);
+            expect(tree.getNode(1)).toBe(nodes[1]);
+        });
+
+        it('deletes all entries with a key', () => {
+            const tree = createMultimap();
+            [3, 1, 2, 2, 5, 2, 4, 2].forEach((key, i) => tree.insert(key, `${i}`));
+
+            expect(tree.deleteAll(2)).toBe(4);
+            expect(tree.deleteAll(2)).toBe(0);
+
+            checkTree(tree.root, defaultCompareFunction, true);
+            expect(tree.keyList()).toEqual([1, 3, 4, 5]);
+        });
+
+        it('deletes the first entry with delete', () => {
+            const tree = createMultimap();
+            tree.set(1, 'a').set(1, 'b');
+
+            expect(tree.delete(1)).toBe(true);
+            expect(tree.getAll(1)).toEqual(['b']);
+        });
+
+        it('finds the first and last of equal keys with ceiling and floor', () => {
+            const tree = createMultimap();
+            repeat(10, i => tree.set(Math.floor(i / 4), `${i}`));
+
+            expect(tree.ceilingValue(1)).toBe('4');
+            expect(tree.floorValue(1)).toBe('7');
+            expect(tree.lowerValue(1)).toBe('3');
+            expect(tree.higherValue(1)).toBe('8');
+        });
+
+        it('creates trees from entries with equal keys', () => {
+            const entries: [number, string][] = [
+                [2, 'a'],
+                [1, 'b'],
+                [2, 'c']
+            ];
+            const options = { duplicates: 'allow' as const };
+
+            expect(AvlTree.from(entries, undefined, options).entryList()).toEqual([
+                [1, 'b'],
+                [2, 'a'],
+                [2, 'c']
+            ]);
+            expect(AvlTree.fromSorted([entries[1], entries[0], entries[2]], undefined, options).size).toBe(3);
+            expect(() => AvlTree.fromSorted([entries[0], entries[1]], undefined, options)).toThrowError(
+                'Entries are not in ascending order: 2 is followed by 1'
+            );
+        });
+
+        it('splits and joins equal keys', () => {
+            const tree = createMultimap();
+            repeat(30, i => tree.set(i % 3, `${i}`));
+            const values = tree.getAll(1);
+
+            const [left, right] = tree.split(1);
+            expect(left.keyList()).toEqual(repeat(10, () => 0));
+            expect(right.getAll(1)).toEqual(values);
+
+            const [middle, rest] = right.split(1, { equalKey: 'left' });
+            expect(middle.getAll(1)).toEqual(values);
+            expect(rest.count(2)).toBe(10);
+
+            middle.set(1, 'extra');
+            const joined = AvlTree.join(middle, AvlTree.fromSorted([[1, 'after']], undefined, { duplicates: 'allow' }));
+            checkTree(joined.root, defaultCompareFunction, true);
+            expect(joined.getAll(1)).toEqual([...values, 'extra', 'after']);
+        });
+    });
+
+    describe('aggregate', () => {
+        const sum: Augmentation<number, number, number> = {
+            combine: (a, b) => a + b,
+            identity: 0,
+            fromNode: (_key, value) => value
+        };
+        const concat: Augmentation<number, string, string> = {
+            combine: (a, b) => a + b,
+            identity: '',
+            fromNode: (_key, value) => value
+        };
+
+        it('aggregates the values in a key range', () => {
+            const tree = new AvlTree<number, number>(undefined, { augment: sum });
+            shuffleList(repeat(100, i => i)).forEach(i => tree.set(i, i));
+
+            expect(tree.aggregate()).toBe(4950);
+            expect(tree.aggregate(10, 19)).toBe(145);
+            expect(tree.aggregate(undefined, 9)).toBe(45);
+            expect(tree.aggregate(95)).toBe(485);
+            expect(tree.aggregate(10.5, 11.5)).toBe(11);
+            expect(tree.aggregate(20, 10)).toBe(0);
+            expect(new AvlTree<number, number>(undefined, { augment: sum }).aggregate()).toBe(0);
+        });
+
+        it('combines the aggregates in key order', () => {
+            const tree = new AvlTree<number, string>(undefined, { augment: concat });
+            shuffleList(repeat(26, i => i)).forEach(i => tree.set(i, String.fromCharCode(97 + i)));
+
+            expect(tree.aggregate()).toBe('abcdefghijklmnopqrstuvwxyz');
+            expect(tree.aggregate(3, 7)).toBe('defgh');
+        });
+
+        it('keeps the aggregates up to date through modifications', () => {
+            const tree = new AvlTree<number, number>(undefined, { augment: sum, duplicates: 'replace' });
+            const keys = shuffleList(repeat(200, i => i));
+            keys.forEach(key => {
+                tree.set(key, key);
+                checkAggregates(tree.root, sum);
+            });
+
+            tree.set(5, 1000);
+            tree.upsert(6, value => (value ?? 0) + 1);
+            tree.update(7, value => value * 2);
+            checkAggregates(tree.root, sum);
+            expect(tree.aggregate(5, 7)).toBe(1021);
+
+            shuffleList(keys)
+                .slice(0, 150)
+                .forEach(key => {
+                    tree.delete(key);
+                    checkAggregates(tree.root, sum);
+                });
+            expect(tree.aggregate()).toBe(tree.valueList().reduce((a, b) => a + b, 0));
+        });
+
+        it('keeps the aggregates up to date through split and join', () => {
+            const tree = AvlTree.from(
+                repeat(100, i => [i, i] as [number, number]),
+                undefined,
+                { augment: sum }
+            );
+            checkAggregates(tree.root, sum);
+
+            const [left, right] = tree.split(37);
+            checkAggregates(left.root, sum);
+            checkAggregates(right.root, sum);
+            expect(left.aggregate()).toBe(666);
+
+            const [small, rest] = right.split(40);
+            const joined = AvlTree.join(left, rest);
+            checkAggregates(joined.root, sum);
+            expect(joined.aggregate()).toBe(4950 - small.aggregate());
+        });
+
+        it('computes the aggregates of trees created from JSON', () => {
+            const tree = AvlTree.from(repeat(20, i => [i, i] as [number, number]));
+            const copy = AvlTree.fromJSON(tree.toJSON(), undefined, { augment: sum });
+            checkAggregates(copy.root, sum);
+            expect(copy.aggregate(0, 9)).toBe(45);
+        });
+
+        it('throws an error for trees without augmentation', () => {
+            expect(() => new AvlTree().aggregate()).toThrowError(
+                'Cannot aggregate a tree that was created without the augment option'
+            );
+        });
+    });
+
+    describe('batch operations', () => {
+        const createTree = (count: number): AvlTree<number, string> =>
+            AvlTree.from(
+                repeat(count, i => [i * 2, `${i * 2}`] as [number, string]),
+                undefined,
+                {
+                    duplicates: 'replace'
+                }
+            );
+
+        it('sets many entries by merging them into the tree', () => {
+            const tree = createTree(10);
+            const node = tree.getNode(4);
+
+            const result = tree.setMany(shuffleList(repeat(20, i => [i, `new ${i}`] as [number, string])));
+
+            checkTree(tree.root, defaultCompareFunction);
+            expect(result).toEqual({ inserted: 10, replaced: 10 });
+            expect(tree.size).toBe(20);
+            expect(tree.getNode(4)).toBe(node);
+            expect(node?.value).toBe('new 4');
+            expect(tree.keyList()).toEqual(repeat(20, i => i));
+        });
+
+        it('sets a few entries one by one', () => {
+            const tree = createTree(1000);
+            const result = tree.setMany([
+                [3, 'three'],
+                [4, 'four'],
+                [3, 'THREE']
+            ]);
+
+            checkTree(tree.root, defaultCompareFunction);
+            expect(result).toEqual({ inserted: 1, replaced: 1 });
+            expect(tree.get(3)).toBe('THREE');
+            expect(tree.get(4)).toBe('four');
+        });
+
+        it('throws an error on existing keys before changing the tree', () => {
+            const tree = new AvlTree<number, string>();
+            tree.set(5, 'five');
+
+            expect(() => tree.setMany(repeat(10, i => [i, `${i}`] as [number, string]))).toThrowError(
+                'Key already exists: 5'
+            );
+            expect(() =>
+                tree.setMany([
+                    [1, 'a'],
+                    [1, 'b']
+                ])
+            ).toThrowError('Key already exists: 1');
+            expect(tree.size).toBe(1);
+        });
+
+        it('finds existing keys while walking the tree when merging', () => {
+            const tree = AvlTree.fromSorted(repeat(10, i => [i * 2, `${i * 2}`] as [number, string]));
+            spyOn(tree, 'has').and.callThrough();
+
+            expect(() => tree.setMany(repeat(10, i => [i * 2 + 1, 'new'] as [number, string]))).not.toThrow();
+            expect(() => tree.setMany(repeat(10, i => [i + 15, 'new'] as [number, string]))).toThrowError(
+                'Key already exists: 15'
+            );
+            expect(tree.has).not.toHaveBeenCalled();
+            expect(tree.size).toBe(20);
+
+            const large = AvlTree.fromSorted(repeat(1000, i => [i, `${i}`] as [number, string]));
+            expect(() =>
+                large.setMany([
+                    [1000, 'new'],
+                    [500, 'new']
+                ])
+            ).toThrowError('Key already exists: 500');
+            expect(large.size).toBe(1000);
+        });
+
+        it('adds entries after existing equal keys in a tree that allows duplicates', () => {
+            const tree = new AvlTree<number, string>(undefined, { duplicates: 'allow' });
+            tree.set(1, 'a').set(2, 'b');
+
+            const result = tree.setMany([
+                [2, 'c'],
+                [1, 'd'],
+                [2, 'e']
+            ]);
+
+            checkTree(tree.root, defaultCompareFunction, true);
+            expect(result).toEqual({ inserted: 3, replaced: 0 });
+            expect(tree.valueList()).toEqual(['a', 'd', 'b', 'c', 'e']);
+        });
+
+        it('deletes many keys', () => {
+            const tree = createTree(20);
+            const node = tree.getNode(6);
+            const cursor = tree.cursor(8);
+
+            const removed = tree.deleteMany([8, 0, 100, 10, 12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 8]);
+
+            checkTree(tree.root, defaultCompareFunction);
+            expect(removed).toBe(13);
+            expect(tree.keyList()).toEqual([2, 4, 6, 32, 34, 36, 38]);
+            expect(tree.getNode(6)).toBe(node);
+            expect(cursor.removed).toBe(true);
+        });
+
+        it('deletes a few keys one by one', () => {
+            const tree = createTree(1000);
+
+            expect(tree.deleteMany([4, 3, 2])).toBe(2);
+
+            checkTree(tree.root, defaultCompareFunction);
+            expect(tree.size).toBe(998);
+            expect(tree.has(2)).toBe(false);
+        });
+
+        it('deletes a range of keys', () => {
+            const tree = createTree(100);
+            const node = tree.getNode(100);
+
+            expect(tree.deleteRange(10, 20)).toBe(6);
+            checkTree(tree.root, defaultCompareFunction);
+            expect(tree.size).toBe(94);
+            expect(tree.range(0, 30).next().value).toEqual([0, '0']);
+            expect(tree.keyList().slice(4, 7)).toEqual([8, 22, 24]);
+            expect(tree.getNode(100)).toBe(node);
+
+            expect(tree.deleteRange(30, 40, { fromInclusive: false, toInclusive: false })).toBe(4);
+            expect(tree.has(30)).toBe(true);
+            expect(tree.has(40)).toBe(true);
+            expect(tree.deleteRange(1000, 2000)).toBe(0);
+            expect(tree.deleteRange(50, 40)).toBe(0);
+            expect(tree.size).toBe(90);
+        });
+
+        it('keeps the aggregates up to date', () => {
+            const sum: Augmentation<number, number, number> = {
+                combine: (a, b) => a + b,
+                identity: 0,
+                fromNode: (_key, value) => value
+            };
+            const tree = new AvlTree<number, number>(undefined, { augment: sum, duplicates: 'replace' });
+
+            tree.setMany(repeat(50, i => [i, i] as [number, number]));
+            checkAggregates(tree.root, sum);
+            tree.setMany([[10, 100]]);
+            tree.deleteMany(repeat(25, i => i * 2));
+            checkAggregates(tree.root, sum);
+            tree.deleteRange(20, 30);
+            checkAggregates(tree.root, sum);
+            expect(tree.aggregate()).toBe(tree.valueList().reduce((a, b) => a + b, 0));
+        });
+    });
+
+    describe('events', () => {
+        it('reports inserted, updated and deleted nodes with their index', () => {
+            const tree = new AvlTree<number, string>(undefined, { duplicates: 'replace' });
+            const events: string[] = [];
+            tree.on('insert', (node, index) => events.push(`insert ${node.key} at ${index}`));
+            tree.on('update', (node, index, previousValue) =>
+                events.push(`update ${node.key} at ${index} from ${previousValue} to ${node.value}`)
+            );
+            tree.on('delete', (node, index) => events.push(`delete ${node.key} at ${index}`));
+            tree.on('clear', () => events.push('clear'));
+
+            tree.set(20, 'a').set(10, 'b').set(30, 'c').set(20, 'd');
+            tree.delete(10);
+            tree.delete(40);
+            tree.clear();
+
+            expect(events).toEqual([
+                'insert 20 at 0',
+                'insert 10 at 0',
+                'insert 30 at 2',
+                'update 20 at 1 from a to d',
+                'delete 10 at 0',
+                'clear'
+            ]);
+        });
+
+        it('calls listeners after the tree is rebalanced', () => {
+            const tree = new AvlTree<number, string>();
+            tree.on('insert', node => {
+                checkTree(tree.root);
+                if (node.key % 2 === 0) {
+                    tree.set(node.key + 1, 'odd');
+                }
+            });
+            tree.on('delete', () => checkTree(tree.root));
+
+            repeat(20, i => tree.set(i * 2, 'even'));
+            tree.delete(4);
+
+            checkTree(tree.root);
+            expect(tree.size).toBe(39);
+        });
+
+        it('unsubscribes listeners', () => {
+            const tree = new AvlTree<number, string>();
+            const listener = jest.fn();
+            const unsubscribe = tree.on('insert', listener);
+
+            tree.set(1, 'a');
+            expect(unsubscribe()).toBe(true);
+            expect(tree.off('insert', listener)).toBe(false);
+            tree.set(2, 'b');
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('reports every node of batch operations in key order', () => {
+            const tree = AvlTree.from(
+                repeat(10, i => [i * 2, `${i * 2}`] as [number, string]),
+                undefined,
+                { duplicates: 'replace' }
+            );
+            const events: string[] = [];
+            tree.on('insert', (node, index) => events.push(`insert ${node.key} at ${index}`));
+            tree.on('update', (node, index) => events.push(`update ${node.key} at ${index}`));
+            tree.on('delete', (node, index) => events.push(`delete ${node.key} at ${index}`));
+
+            tree.setMany(repeat(10, i => [10 - i, 'new'] as [number, string]));
+            expect(events).toEqual([
+                'insert 1 at 1',
+                'update 2 at 2',
+                'insert 3 at 3',
+                'update 4 at 4',
+                'insert 5 at 5',
+                'update 6 at 6',
+                'insert 7 at 7',
+                'update 8 at 8',
+                'insert 9 at 9',
+                'update 10 at 10'
+            ]);
+
+            events.length = 0;
+            tree.deleteMany(repeat(10, i => i + 1));
+            expect(events).toEqual(repeat(10, i => `delete ${i + 1} at 1`));
+
+            events.length = 0;
+            tree.deleteRange(12, 16);
+            expect(events).toEqual(['delete 12 at 1', 'delete 14 at 1', 'delete 16 at 1']);
+        });
+
+        it('reports rotations', () => {
+            const rotations: string[] = [];
+            const tree = new AvlTree<number, string>(undefined, {
+                onRotate: (root, newRoot, direction): number =>
+                    rotations.push(`${direction} ${root.key} -> ${newRoot.key}`)
+            });
+
+            tree.set(1, 'a').set(2, 'b').set(3, 'c');
+            tree.set(0, 'd').set(-1, 'e');
+
+            expect(rotations).toEqual(['left 1 -> 2', 'right 1 -> 0']);
+        });
+
+        it('does not allow modifications from a rotation listener', () => {
+            const tree: AvlTree<number, string> = new AvlTree<number, string>(undefined, {
+                onRotate: (): unknown => tree.set(100, 'x')
+            });
+            tree.set(1, 'a').set(2, 'b');
+
+            expect(() => tree.set(3, 'c')).toThrowError('Cannot modify the tree from within a rotation listener');
+            expect(tree.validate().valid).toBe(true);
+            expect(tree.keyList()).toEqual([1, 2, 3]);
+        });
+
+        it('keeps the tree intact when a rotation listener throws an error', () => {
+            const tree = new AvlTree<number, string>(undefined, {
+                onRotate: (): void => {
+                    throw new Error('Listener failed');
+                }
+            });
+            tree.set(1, 'a').set(2, 'b');
+
+            expect(() => tree.set(3, 'c')).toThrowError('Listener failed');
+            expect(tree.validate().valid).toBe(true);
+            expect(tree.size).toBe(3);
+            expect(tree.keyList()).toEqual([1, 2, 3]);
+        });
+
+        it('does not allow modifications from a rotation listener while deleting a range', () => {
+            const tree: AvlTree<number, string> = AvlTree.fromSorted(
+                repeat(15, i => [i, `${i}`] as [number, string]),
+                undefined,
+                { onRotate: (): unknown => tree.insert(100, 'x') }
+            );
+
+            expect(() => tree.deleteRange(6, 11)).toThrowError(
+                'Cannot modify the tree from within a rotation listener'
+            );
+            expect(tree.validate().valid).toBe(true);
+            expect(tree.keyList()).toEqual([0, 1, 2, 3, 4, 5, 12, 13, 14]);
+        });
+
+        it('calls the rotation listener once the tree is rebalanced', () => {
+            const observed: string[] = [];
+            const tree: AvlTree<number, string> = new AvlTree<number, string>(undefined, {
+                onRotate: (): number => observed.push(`root ${tree.root?.key}, keys ${tree.keyList()}`)
+            });
+
+            tree.set(1, 'a').set(2, 'b').set(3, 'c').set(4, 'd');
+            tree.delete(1);
+
+            expect(observed).toEqual(['root 2, keys 1,2,3', 'root 3, keys 2,3,4']);
+        });
+    });
+
+    describe('validate', () => {
+        const createTree = (count: number): AvlTree<number, string> =>
+            AvlTree.fromSorted(repeat(count, i => [i, `${i}`] as [number, string]));
+
+        it('reports a valid tree', () => {
+            const tree = new AvlTree<number, string>();
+            expect(tree.validate()).toEqual({ valid: true, nodeCount: 0, height: 0, issues: [] });
+
+            shuffleList(repeat(1000, i => i)).forEach(key => tree.set(key, `${key}`));
+            repeat(500, i => tree.delete(i * 2));
+
+            const report = tree.validate();
+            expect(report.valid).toBe(true);
+            expect(report.nodeCount).toBe(500);
+            expect(report.height).toBeLessThanOrEqual(12);
+        });
+
+        it('reports all broken links, balance factors and sizes', () => {
+            const tree = createTree(7);
+            const root = tree.root as AvlTreeNode<number, string>;
+            (root.left as AvlTreeNode<number, string>).parent = undefined;
+            (root.right as AvlTreeNode<number, string>).balanceFactor = 1;
+            (root.right?.right as AvlTreeNode<number, string>).size = 3;
+
+            expect(tree.validate()).toEqual({
+                valid: false,
+                nodeCount: 7,
+                height: 3,
+                issues: [
+                    { kind: 'parent-link', key: 1, message: 'Node 1 does not link back to its parent 3' },
+                    { kind: 'node-size', key: 6, message: 'Size of node 6 is 3, but should be 1' },
+                    { kind: 'balance-factor', key: 5, message: 'Balance factor of node 5 is 1, but should be 0' }
+                ]
+            });
+        });
+
+        it('reports a tree that is not balanced', () => {
+            const tree = createTree(1);
+            const root = tree.root as AvlTreeNode<number, string>;
+            root.right = new AvlTreeNode(1, '1', root);
+            root.right.right = new AvlTreeNode(2, '2', root.right);
+            root.right.right.right = root.right;
+
+            expect(tree.validate().issues.map(issue => issue.kind)).toEqual([
+                'cycle',
+                'balance-factor',
+                'node-size',
+                'imbalance',
+                'balance-factor',
+                'node-size',
+                'height-bound',
+                'tree-size'
+            ]);
+        });
+
+        it('reports a long chain of nodes', () => {
+            const tree = createTree(1);
+            let last = tree.root as AvlTreeNode<number, string>;
+            for (let key = 1; key < 50000; key += 1) {
+                last.right = new AvlTreeNode(key, `${key}`, last);
+                last = last.right;
+            }
+
+            const report = tree.validate();
+            expect(report.valid).toBe(false);
+            expect(report.nodeCount).toBe(50000);
+            expect(report.height).toBe(50000);
+            expect(report.issues.filter(issue => issue.kind === 'imbalance').length).toBe(49998);
+            expect(report.issues.slice(-2).map(issue => issue.kind)).toEqual(['height-bound', 'tree-size']);
+
+            const stats = tree.stats();
+            expect(stats.height).toBe(50000);
+            expect(stats.leafCount).toBe(1);
+        });
+
+        it('reports keys that are out of order', () => {
+            let descending = false;
+            const tree = new AvlTree<number, string>((a, b) => (descending ? b - a : a - b));
+            repeat(5, i => tree.set(i, `${i}`));
+            descending = true;
+
+            expect(tree.validate().issues).toEqual(
+                repeat(4, i => ({
+                    kind: 'key-order',
+                    key: i + 1,
+                    message: `Key ${i + 1} is not greater than the key of its predecessor ${i}`
+                }))
+            );
+        });
+    });
+
+    describe('stats', () => {
+        it('describes an empty tree', () => {
+            expect(new AvlTree<number, string>().stats()).toEqual({
+                size: 0,
+                height: 0,
+                minHeight: 0,
+                maxHeight: 0,
+                leafCount: 0,
+                balanceFactors: { [-1]: 0, 0: 0, 1: 0 },
+                averageDepth: 0,
+                maxDepth: 0,
+                rotations: 0,
+                rebalances: 0
+            });
+        });
+
+        it('describes the shape of a tree', () => {
+            const tree = AvlTree.fromSorted(repeat(7, i => [i, `${i}`] as [number, string]));
+
+            expect(tree.stats()).toEqual({
+                size: 7,
+                height: 3,
+                minHeight: 3,
+                maxHeight: 4,
+                leafCount: 4,
+                balanceFactors: { [-1]: 0, 0: 7, 1: 0 },
+                averageDepth: 10 / 7,
+                maxDepth: 2,
+                rotations: 0,
+                rebalances: 0
+            });
+        });
+
+        it('stays within the AVL height bounds', () => {
+            const tree = new AvlTree<number, string>();
+            shuffleList(repeat(1000, i => i)).forEach(key => tree.set(key, `${key}`));
+
+            const stats = tree.stats();
+            expect(stats.minHeight).toBe(10);
+            expect(stats.maxHeight).toBe(14);
+            expect(stats.height).toBeGreaterThanOrEqual(stats.minHeight);
+            expect(stats.height).toBeLessThanOrEqual(stats.maxHeight);
+            expect(stats.maxDepth).toBe(stats.height - 1);
+            expect(stats.balanceFactors[-1] + stats.balanceFactors[0] + stats.balanceFactors[1]).toBe(1000);
+            expect(stats.rotations).toBeGreaterThanOrEqual(stats.rebalances);
+        });
+
+        it('counts rotations and rebalances until they are reset', () => {
+            const tree = new AvlTree<number, string>();
+
+            // A single rotation
+            tree.set(1, 'a').set(2, 'b').set(3, 'c');
+            expect(tree.stats()).toMatchObject({ rotations: 1, rebalances: 1 });
+
+            tree.resetStats();
+            expect(tree.stats()).toMatchObject({ rotations: 0, rebalances: 0 });
+
+            // A double rotation
+            tree.set(5, 'e').set(4, 'd');
+            expect(tree.stats()).toMatchObject({ rotations: 2, rebalances: 1 });
+
+            // A rotation after a deletion
+            tree.delete(1);
+            expect(tree.stats()).toMatchObject({ rotations: 3, rebalances: 2 });
+        });
+
+        it('counts the rotations of deleting a range', () => {
+            const tree = AvlTree.fromSorted(repeat(15, i => [i, `${i}`] as [number, string]));
+
+            tree.deleteRange(6, 11);
+
+            expect(tree.stats().rotations).toBeGreaterThan(0);
+            expect(tree.validate().valid).toBe(true);
+        });
+
+        it('counts the rebalances of deleting ranges', () => {
+            const tree = new AvlTree<number, string>();
+            shuffleList(repeat(2000, i => i)).forEach(key => tree.set(key, `${key}`));
+            tree.resetStats();
+
+            repeat(20, i => tree.deleteRange(i * 100, i * 100 + 10));
+
+            const { rotations, rebalances } = tree.stats();
+            expect(rebalances).toBeGreaterThan(0);
+            expect(rotations).toBeGreaterThanOrEqual(rebalances);
+            expect(tree.validate().valid).toBe(true);
+        });
+    });
+
     describe('toString', () => {
         it('prints out a tree', () => {
             const tree = new AvlTree<number, string>();
@@ -1118,6 +2656,21 @@ function shuffleList<T>(array: T[]): T[] {
     return array;
 }
 
+function checkAggregates<K, V, A>(node: AvlTreeNode<K, V> | undefined, augmentation: Augmentation<K, V, A>): A {
+    if (!node) {
+        return augmentation.identity;
+    }
+    const { combine, fromNode } = augmentation;
+    const expected = combine(
+        combine(checkAggregates(node.left, augmentation), fromNode(node.key, node.value)),
+        checkAggregates(node.right, augmentation)
+    );
+    if (node.aggregate !== expected) {
+        throw new Error(`Aggregate of node ${node.key} is ${node.aggregate}, but should be ${expected}`);
+    }
+    return expected;
+}
+
 function repeat<T>(times: number, fn: (iteration: number) => T): T[] {
     const results: T[] = [];
     for (let i = 0; i < times; i++) {
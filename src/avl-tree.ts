@@ -1,12 +1,31 @@
 import { AvlTreeNode, AvlTreeNodeJson } from './avl-tree-node';
+import { AvlTreeCursor } from './avl-tree-cursor';
+import { AvlTreeIterator, checkModificationCount } from './avl-tree-iterator';
+import { getHeight, joinWithNode, splitSubtree } from './avl-tree-join';
+import { mergeEntries, MergeRules } from './avl-tree-merge';
+import { deserializeTree, SerializationOptions, serializeTree } from './avl-tree-serialization';
 import {
+    adjustSizeUpwards,
+    buildBalancedTree,
+    checkTree,
+    computeAggregates,
     disconnectChildNodeFromParent,
+    getAggregate,
+    getSize,
+    linkBalancedTree,
+    maxAvlHeight,
+    measureTree,
+    minBinaryTreeHeight,
     printTreeNode,
     replaceChild,
     replaceNode,
     rotateLeft,
-    rotateRight
+    rotateRight,
+    updateAggregate,
+    updateAggregatesUpwards,
+    validateTree
 } from './avl-tree-utils';
+import { validatingCompareFunction } from './validating-compare-function';
 
 /**
  * An AVL tree, a self-balancing binary search tree.
@@ -15,13 +34,304 @@ import {
 export class AvlTree<K = any, V = any> implements Map<K, V> {
     private _root?: AvlTreeNode<K, V>;
     private _size = 0;
+    private _modificationCount = 0;
+    private hooks: StructureHooks<K, V>;
+    private rotating = false;
+    private pendingRotations: Parameters<RotateListener<K, V>>[] = [];
+    private rotationCount = 0;
+    private rebalanceCount = 0;
+    private readonly listeners = new Map<AvlTreeEvent, ((...args: any[]) => void)[]>();
 
     /**
      * Creates an AVL tree.
      * @param compareFunction A comparison function that enforces a total ordering:
      *  i.e. if fn(a, b) < 0 then fn(b, a) > 0.
+     * @param options Additional tree options
      */
-    constructor(private compareFunction: CompareFunction<K> = defaultCompareFunction) {}
+    constructor(
+        private compareFunction: CompareFunction<K> = defaultCompareFunction,
+        private readonly options: AvlTreeOptions<K, V> = {}
+    ) {
+        if (options.validateCompareFunction) {
+            this.compareFunction = validatingCompareFunction(compareFunction);
+        }
+        const { augment, onRotate } = options;
+        this.hooks = {
+            augment,
+            onRotate: (root, newRoot, direction): void => {
+                this.rotationCount += 1;
+                if (onRotate) {
+                    // The tree is in the middle of a rebalance: the listener is called once it is complete
+                    this.pendingRotations.push([root, newRoot, direction]);
+                }
+            },
+            onRebalance: (): void => {
+                this.rebalanceCount += 1;
+            }
+        };
+    }
+
+    /**
+     * Creates a balanced AVL tree from entries that are already sorted by key, in O(n).
+     * @param entries The key-value pairs, in strictly ascending order of their keys
+     *  (or in non-descending order, for trees that allow duplicate keys)
+     * @param compareFunction The comparison function of the tree, also used to verify the order of the entries
+     * @param options Additional tree options
+     * @returns The new tree
+     */
+    static fromSorted<K, V>(
+        entries: Iterable<[K, V]>,
+        compareFunction: CompareFunction<K> = defaultCompareFunction,
+        options: AvlTreeOptions<K, V> = {}
+    ): AvlTree<K, V> {
+        const list = Array.from(entries);
+        const allowEqual = options.duplicates === 'allow';
+        for (let i = 1; i < list.length; i += 1) {
+            const cmp = compareFunction(list[i - 1][0], list[i][0]);
+            if (cmp > 0 || (cmp === 0 && !allowEqual)) {
+                throw new Error(
+                    `Entries are not in ${allowEqual ? 'ascending' : 'strictly ascending'} order: ${
+                        list[i - 1][0]
+                    } is followed by ${list[i][0]}`
+                );
+            }
+        }
+        return AvlTree.build(list, compareFunction, options);
+    }
+
+    /**
+     * Creates a balanced AVL tree from entries in any order.
+     * Input that is already sorted is built in O(n), other input is sorted first.
+     * Duplicate keys are handled according to the `duplicates` option, as with `set`.
+     * @param entries The key-value pairs
+     * @param compareFunction The comparison function of the tree
+     * @param options Additional tree options
+     * @returns The new tree
+     */
+    static from<K, V>(
+        entries: Iterable<[K, V]>,
+        compareFunction: CompareFunction<K> = defaultCompareFunction,
+        options: AvlTreeOptions<K, V> = {}
+    ): AvlTree<K, V> {
+        let list = Array.from(entries);
+        const allowEqual = options.duplicates === 'allow';
+
+        let isSorted = true;
+        for (let i = 1; i < list.length && isSorted; i += 1) {
+            const cmp = compareFunction(list[i - 1][0], list[i][0]);
+            isSorted = cmp < 0 || (cmp === 0 && allowEqual);
+        }
+
+        if (!isSorted) {
+            // Sort on key, then on original position, so the last of equal keys is also last after sorting
+            const sorted = list
+                .map((entry, index) => ({ entry, index }))
+                .sort((a, b) => compareFunction(a.entry[0], b.entry[0]) || a.index - b.index);
+
+            list = [];
+            for (const { entry } of sorted) {
+                const last = list.length - 1;
+                if (!allowEqual && last >= 0 && compareFunction(list[last][0], entry[0]) === 0) {
+                    if (options.duplicates !== 'replace') {
+                        throw new Error(`Key already exists: ${entry[0]}`);
+                    }
+                    list[last] = entry;
+                } else {
+                    list.push(entry);
+                }
+            }
+        }
+
+        return AvlTree.build(list, compareFunction, options);
+    }
+
+    /**
+     * Recreates a tree from the output of `toJSON`, with the exact same shape and balance factors.
+     * Throws an error if the input is not a valid AVL tree, or if its keys are not in ascending order.
+     * @param json The JSON representation of the tree (undefined for an empty tree)
+     * @param compareFunction The comparison function of the tree
+     * @param options Additional tree options
+     * @returns The new tree
+     */
+    static fromJSON<K, V>(
+        json: AvlTreeNodeJson<K, V> | undefined,
+        compareFunction: CompareFunction<K> = defaultCompareFunction,
+        options: AvlTreeOptions<K, V> = {}
+    ): AvlTree<K, V> {
+        const tree = new AvlTree<K, V>(compareFunction, options);
+        if (json) {
+            const root = AvlTreeNode.fromJSON(json);
+            try {
+                checkTree(root, compareFunction, options.duplicates === 'allow');
+            } catch (e) {
+                throw new Error(`Invalid AVL tree JSON: ${e.message}`);
+            }
+            computeAggregates(root, options.augment);
+            tree._root = root;
+            tree._size = root.size;
+        }
+        return tree;
+    }
+
+    /**
+     * Recreates a tree from the output of `serialize`, in O(n).
+     * Throws an error if the data is malformed or if its keys are not in ascending order.
+     * @param bytes The serialized tree
+     * @param serializationOptions The codecs for the keys and values
+     * @param compareFunction The comparison function of the tree
+     * @param options Additional tree options
+     * @returns The new tree
+     */
+    static deserialize<K, V>(
+        bytes: Uint8Array,
+        serializationOptions: SerializationOptions<K, V>,
+        compareFunction: CompareFunction<K> = defaultCompareFunction,
+        options: AvlTreeOptions<K, V> = {}
+    ): AvlTree<K, V> {
+        const { root, size } = deserializeTree(
+            bytes,
+            serializationOptions,
+            compareFunction,
+            options.duplicates === 'allow'
+        );
+        computeAggregates(root, options.augment);
+        const tree = new AvlTree<K, V>(compareFunction, options);
+        tree._root = root;
+        tree._size = size;
+        return tree;
+    }
+
+    /**
+     * Concatenates two trees, where all keys in the left tree are less than all keys in the right tree.
+     * Runs in O(log n). The nodes are moved into the resulting tree, leaving both input trees empty.
+     * The resulting tree uses the compare function and options of the left tree.
+     * @param left The tree with the lower keys
+     * @param right The tree with the higher keys
+     * @returns The joined tree
+     */
+    static join<K, V>(left: AvlTree<K, V>, right: AvlTree<K, V>): AvlTree<K, V> {
+        const joined = new AvlTree<K, V>(left.compareFunction, left.options);
+        joined.setRoot(AvlTree.joinNodes(left, right, joined.hooks));
+        joined.flushRotations();
+        return joined;
+    }
+
+    /**
+     * Creates a tree with the keys that occur in either of two trees, in O(n + m).
+     * @param left The first tree, which provides the compare function and options of the result
+     * @param right The second tree. Duplicate keys that the left tree does not allow are replaced or rejected, as by `from`.
+     * @param resolve Computes the value for keys that occur in both trees (default: the value from the left tree)
+     * @returns The new tree
+     */
+    static union<K, V>(
+        left: AvlTree<K, V>,
+        right: AvlTree<K, V>,
+        resolve: (key: K, leftValue: V, rightValue: V) => V = keepLeftValue
+    ): AvlTree<K, V> {
+        return AvlTree.combine(left, right, { left: true, right: true, both: resolve });
+    }
+
+    /**
+     * Creates a tree with the keys that occur in both of two trees, in O(n + m).
+     * @param left The first tree, which provides the values, compare function and options of the result
+     * @param right The second tree
+     * @returns The new tree
+     */
+    static intersection<K, V>(left: AvlTree<K, V>, right: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.combine(left, right, { left: false, right: false, both: keepLeftValue });
+    }
+
+    /**
+     * Creates a tree with the keys of one tree that do not occur in another tree, in O(n + m).
+     * @param left The tree to take the keys from, which provides the compare function and options of the result
+     * @param right The tree with the keys to leave out
+     * @returns The new tree
+     */
+    static difference<K, V>(left: AvlTree<K, V>, right: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.combine(left, right, { left: true, right: false });
+    }
+
+    /**
+     * Creates a tree with the keys that occur in exactly one of two trees, in O(n + m).
+     * @param left The first tree, which provides the compare function and options of the result
+     * @param right The second tree. Duplicate keys that the left tree does not allow are replaced or rejected, as by `from`.
+     * @returns The new tree
+     */
+    static symmetricDifference<K, V>(left: AvlTree<K, V>, right: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.combine(left, right, { left: true, right: true });
+    }
+
+    /**
+     * Creates a tree out of entries that are known to be sorted and free of duplicate keys.
+     */
+    private static build<K, V>(
+        entries: [K, V][],
+        compareFunction: CompareFunction<K>,
+        options: AvlTreeOptions<K, V>
+    ): AvlTree<K, V> {
+        const tree = new AvlTree<K, V>(compareFunction, options);
+        tree._root = buildBalancedTree(entries);
+        tree._size = entries.length;
+        computeAggregates(tree._root, options.augment);
+        return tree;
+    }
+
+    /**
+     * Merges two trees into a new tree, using the compare function and options of the left tree.
+     * If the right tree orders its keys differently, or has duplicate keys that the left tree does not allow,
+     * its entries are first sorted and deduplicated like `from` does, with the `duplicates` option of the left tree.
+     */
+    private static combine<K, V>(left: AvlTree<K, V>, right: AvlTree<K, V>, rules: MergeRules<K, V>): AvlTree<K, V> {
+        const rightEntries =
+            right.compareFunction === left.compareFunction && (left.allowsDuplicates || !right.allowsDuplicates)
+                ? right
+                : AvlTree.from(right, left.compareFunction, { duplicates: left.options.duplicates });
+        const entries = mergeEntries(left, rightEntries, left.compareFunction, rules);
+        return AvlTree.build(entries, left.compareFunction, left.options);
+    }
+
+    /**
+     * Moves the nodes of two trees into a single subtree, as described for `join`, leaving both trees empty.
+     * @param hooks The augmentation and rotation listener of the tree that receives the nodes
+     * @returns The root of the joined subtree
+     */
+    private static joinNodes<K, V>(
+        left: AvlTree<K, V>,
+        right: AvlTree<K, V>,
+        hooks: StructureHooks<K, V>
+    ): AvlTreeNode<K, V> | undefined {
+        const leftMax = left.maxNode();
+        const middle = right.minNode();
+
+        if (leftMax && middle) {
+            const cmp = left.compareFunction(leftMax.key, middle.key);
+            if (cmp > 0 || (cmp === 0 && !left.allowsDuplicates)) {
+                throw new Error(
+                    `Cannot join trees: key ${leftMax.key} of the left tree is not less than key ${middle.key}`
+                );
+            }
+        }
+
+        let root: AvlTreeNode<K, V> | undefined;
+        if (!middle) {
+            root = left._root;
+        } else if (!leftMax) {
+            root = right._root;
+        } else {
+            // Take the lowest node out of the right tree to join both trees with
+            right.deleteNode(middle);
+            root = joinWithNode(
+                { node: left._root, height: getHeight(left._root) },
+                middle,
+                { node: right._root, height: getHeight(right._root) },
+                hooks
+            ).node;
+        }
+
+        left.clear();
+        right.clear();
+        return root;
+    }
 
     /**
      * The number of elements in the AVL tree.
@@ -37,9 +347,67 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
         return this._root;
     }
 
+    /**
+     * The number of times nodes have been added to or removed from this tree.
+     * Iterators use this to detect that the tree was modified while iterating over it.
+     */
+    get modificationCount(): number {
+        return this._modificationCount;
+    }
+
+    /**
+     * Whether this tree keeps multiple nodes with equal keys (`duplicates: 'allow'`).
+     */
+    private get allowsDuplicates(): boolean {
+        return this.options.duplicates === 'allow';
+    }
+
+    private get augmentation(): Augmentation<K, V> | undefined {
+        return this.options.augment;
+    }
+
     clear(): void {
+        this.checkNotRotating();
         this._root = undefined;
         this._size = 0;
+        this._modificationCount += 1;
+        this.emit('clear');
+    }
+
+    /**
+     * Subscribes to changes of this tree. Listeners are called after a change is complete,
+     * so they see the tree in a consistent state and may modify it themselves.
+     * - `insert`: a node was added, and is now at the given index
+     * - `delete`: a node was removed from the given index
+     * - `update`: the value of a node was replaced
+     * - `clear`: all nodes were removed
+     *
+     * Batch operations report one event per node, with indexes as if the changes were made one at a time in key order.
+     * @param event The kind of change
+     * @param listener The function to call
+     * @returns A function that unsubscribes the listener
+     */
+    on<E extends AvlTreeEvent>(event: E, listener: AvlTreeEventMap<K, V>[E]): () => void {
+        const listeners = this.listeners.get(event) ?? [];
+        listeners.push(listener);
+        this.listeners.set(event, listeners);
+        return (): boolean => this.off(event, listener);
+    }
+
+    /**
+     * Unsubscribes a listener that was added with `on`.
+     * @param event The kind of change
+     * @param listener The listener to remove
+     * @returns True if the listener was found and removed, false otherwise.
+     */
+    off<E extends AvlTreeEvent>(event: E, listener: AvlTreeEventMap<K, V>[E]): boolean {
+        const listeners = this.listeners.get(event);
+        const index = listeners ? listeners.indexOf(listener) : -1;
+        if (!listeners || index < 0) {
+            return false;
+        }
+        listeners.splice(index, 1);
+        return true;
     }
 
     /**
@@ -51,6 +419,16 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
         return this._root?.toJSON();
     }
 
+    /**
+     * Converts the tree to a compact, versioned binary format.
+     * Unlike `toJSON`, this supports trees of any depth.
+     * @param options The codecs for the keys and values, and whether to include the tree shape
+     * @returns The serialized tree
+     */
+    serialize(options: SerializationOptions<K, V>): Uint8Array {
+        return serializeTree(this._root, this._size, options);
+    }
+
     /**
      * Checks if the tree contains a certain key.
      * @param key The key to check
@@ -62,11 +440,13 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
 
     /**
      * Finds a node with a specified key.
+     * If the tree allows duplicates, this is the first node with the key in insertion order.
      * @param key Key to search for.
      * @returns The node, or undefined if not found
      */
     getNode(key: K): AvlTreeNode<K, V> | undefined {
         let current: AvlTreeNode<K, V> | undefined = this._root;
+        let found: AvlTreeNode<K, V> | undefined;
         while (current) {
             const cmp = this.compareFunction(key, current.key);
             if (cmp < 0) {
@@ -75,10 +455,40 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
                 current = current.right;
             } else {
                 // Key found!
-                break;
+                found = current;
+                if (!this.allowsDuplicates) {
+                    break;
+                }
+                // An earlier node with the same key may exist on the left
+                current = current.left;
             }
         }
-        return current;
+        return found;
+    }
+
+    /**
+     * Gets all values associated with a key, in insertion order.
+     * Mostly useful for trees that allow duplicates.
+     * @param key Key to search for.
+     * @returns The values, which is an empty array if the key was not found
+     */
+    getAll(key: K): V[] {
+        const values: V[] = [];
+        let node = this.getNode(key);
+        while (node && this.compareFunction(key, node.key) === 0) {
+            values.push(node.value);
+            node = node.successor();
+        }
+        return values;
+    }
+
+    /**
+     * Counts the nodes with a key. Runs in O(log n), regardless of the number of duplicates.
+     * @param key Key to search for.
+     * @returns The number of nodes with the key
+     */
+    count(key: K): number {
+        return this.countKeysBefore(key, true) - this.countKeysBefore(key, false);
     }
 
     /**
@@ -91,14 +501,21 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
     }
 
     /**
-     * Inserts a key-value pair into the AVL tree. Throws
-     * an error if the key already exists
+     * Inserts a key-value pair into the AVL tree. When the key already exists,
+     * this throws an error, unless the tree was created with `duplicates: 'replace'`.
+     * In that case the value of the existing node is replaced, like `Map.prototype.set`.
+     * With `duplicates: 'allow'`, a new node is added after the existing ones.
      * @param key The key used to determine the order in the tree
      * @param value The value attached to the key
      * @returns The tree itself (for chaining)
      */
     set(key: K, value: V): this {
-        if (!this.insert(key, value)) {
+        if (this.options.duplicates === 'replace') {
+            const { node, inserted } = this.findOrInsertNode(key, () => value);
+            if (!inserted) {
+                this.setNodeValue(node, value);
+            }
+        } else if (!this.insert(key, value)) {
             throw new Error(`Key already exists: ${key}`);
         }
         return this;
@@ -109,57 +526,56 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
      * @param key The key used to determine the order in the tree
      * @param value The value attached to the key
      * @returns The tree node if inserted, undefined if not. The latter happens when
-     *  a key already exists in the tree.
+     *  a key already exists in the tree, unless the tree allows duplicates.
      */
     insert(key: K, value: V): AvlTreeNode<K, V> | undefined {
-        // Shortcut for root
-        if (!this._root) {
-            this._root = new AvlTreeNode<K, V>(key, value);
-            this._size += 1;
-            return this._root;
-        }
-
-        let current: AvlTreeNode<K, V> | undefined = this._root;
-        let parent: AvlTreeNode<K, V> | undefined;
-
-        // Latest key-node comparison result
-        let cmp = 0;
-
-        // Travel downwards to find the insertion spot
-        while (current) {
-            cmp = this.compareFunction(key, current.key);
-            parent = current;
-            if (cmp < 0) {
-                current = current.left;
-            } else if (cmp > 0) {
-                current = current.right;
-            } else {
-                // Key already present, cannot add
-                return undefined;
-            }
-        }
+        const { node, inserted } = this.findOrInsertNode(key, () => value, this.allowsDuplicates);
+        return inserted ? node : undefined;
+    }
 
-        /* istanbul ignore next */
-        if (!parent) {
-            throw new Error('Invariant failed: no parent node found');
+    /**
+     * Inserts or updates the value for a key, in a single descent.
+     * With `duplicates: 'allow'`, the first node with the key is updated.
+     * @param key The key to insert or update
+     * @param fn Computes the new value from the existing value, which is undefined if the key is not present
+     * @returns The node holding the key
+     */
+    upsert(key: K, fn: (existing?: V) => V): AvlTreeNode<K, V> {
+        const { node, inserted } = this.findOrInsertNode(key, () => fn());
+        if (!inserted) {
+            this.setNodeValue(node, fn(node.value));
         }
+        return node;
+    }
 
-        const newNode = new AvlTreeNode<K, V>(key, value, parent);
+    /**
+     * Gets the node for a key, inserting it first if it is not present, in a single descent.
+     * With `duplicates: 'allow'`, this is the first node with the key, like `getNode`.
+     * @param key The key to search for
+     * @param factory Creates the value when the key is not present. If it modifies the tree, the key is searched again.
+     * @returns The existing or newly inserted node
+     */
+    getOrInsert(key: K, factory: () => V): AvlTreeNode<K, V> {
+        return this.findOrInsertNode(key, factory).node;
+    }
 
-        if (cmp < 0) {
-            parent.left = newNode;
-        } else {
-            parent.right = newNode;
+    /**
+     * Updates the value of an existing key. Does nothing if the key is not present.
+     * @param key The key to update
+     * @param fn Computes the new value from the existing value
+     * @returns The updated node, or undefined if the key was not found
+     */
+    update(key: K, fn: (existing: V) => V): AvlTreeNode<K, V> | undefined {
+        const node = this.getNode(key);
+        if (node) {
+            this.setNodeValue(node, fn(node.value));
         }
-        this._size += 1;
-
-        this.rebalanceAfterInsertion(newNode);
-
-        return newNode;
+        return node;
     }
 
     /**
      * Removes a key-value pair from this tree.
+     * If the tree allows duplicates, only the first node with the key is removed.
      * @param key The key to search for
      * @returns True if the item was found and removed, false otherwise.
      */
@@ -173,10 +589,187 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
     }
 
     /**
-     * Removes a node from the tree.
+     * Removes all nodes with a key from this tree.
+     * @param key The key to search for
+     * @returns The number of removed nodes
+     */
+    deleteAll(key: K): number {
+        let count = 0;
+        let node = this.getNode(key);
+        while (node && this.compareFunction(key, node.key) === 0) {
+            const next = node.successor();
+            this.deleteNode(node);
+            node = next;
+            count += 1;
+        }
+        return count;
+    }
+
+    /**
+     * Sets multiple key-value pairs, handling existing keys like `set` does.
+     * The entries are sorted first. When there are many of them compared to the size of the tree,
+     * they are merged into the tree in a single pass in O(n + m log m); otherwise they are inserted one by one.
+     * Either way, existing nodes are kept. If a key already exists and the tree neither replaces nor allows
+     * duplicates, an error is thrown before the tree is changed.
+     * @param entries The key-value pairs
+     * @returns The number of inserted entries, and the number of existing entries whose value was replaced
+     */
+    setMany(entries: Iterable<[K, V]>): SetManyResult {
+        this.checkNotRotating();
+        const sorted = this.sortEntries(Array.from(entries));
+        const merge = this.prefersRebuild(sorted.length);
+        if (!this.options.duplicates || this.options.duplicates === 'throw') {
+            const existing = this.findExistingEntry(sorted, merge);
+            if (existing) {
+                throw new Error(`Key already exists: ${existing[0]}`);
+            }
+        }
+
+        if (!merge) {
+            let inserted = 0;
+            for (const [key, value] of sorted) {
+                const { node, inserted: isNew } = this.findOrInsertNode(key, () => value, this.allowsDuplicates);
+                if (isNew) {
+                    inserted += 1;
+                } else {
+                    this.setNodeValue(node, value);
+                }
+            }
+            return { inserted, replaced: sorted.length - inserted };
+        }
+
+        const nodes: AvlTreeNode<K, V>[] = [];
+        const changes: { node: AvlTreeNode<K, V>; index: number; replacement?: { previousValue: V } }[] = [];
+        let inserted = 0;
+        let replaced = 0;
+        let current = this.minNode();
+        let i = 0;
+        while (current && i < sorted.length) {
+            const [key, value] = sorted[i];
+            const cmp = this.compareFunction(current.key, key);
+            if (cmp < 0 || (cmp === 0 && this.allowsDuplicates)) {
+                // Existing nodes go before new nodes with an equal key
+                nodes.push(current);
+                current = current.successor();
+            } else if (cmp > 0) {
+                const node = new AvlTreeNode<K, V>(key, value);
+                changes.push({ node, index: nodes.length });
+                nodes.push(node);
+                inserted += 1;
+                i += 1;
+            } else {
+                changes.push({
+                    node: current,
+                    index: nodes.length,
+                    replacement: { previousValue: current.setValue(value) }
+                });
+                nodes.push(current);
+                replaced += 1;
+                current = current.successor();
+                i += 1;
+            }
+        }
+
+        // At most one of the sequences has entries left
+        while (current) {
+            nodes.push(current);
+            current = current.successor();
+        }
+        for (; i < sorted.length; i += 1) {
+            const [key, value] = sorted[i];
+            const node = new AvlTreeNode<K, V>(key, value);
+            changes.push({ node, index: nodes.length });
+            nodes.push(node);
+            inserted += 1;
+        }
+        this.relink(nodes);
+
+        for (const { node, index, replacement } of changes) {
+            if (replacement) {
+                this.emit('update', node, index, replacement.previousValue);
+            } else {
+                this.emit('insert', node, index);
+            }
+        }
+        return { inserted, replaced };
+    }
+
+    /**
+     * Removes multiple keys from this tree. Like `delete`, each key removes at most one node.
+     * The keys are sorted first. When there are many of them compared to the size of the tree,
+     * the remaining nodes are relinked in a single pass in O(n + m log m); otherwise they are removed one by one.
+     * @param keys The keys to remove
+     * @returns The number of removed nodes
+     */
+    deleteMany(keys: Iterable<K>): number {
+        const sorted = Array.from(keys).sort(this.compareFunction);
+
+        if (!this.prefersRebuild(sorted.length)) {
+            return sorted.filter(key => this.delete(key)).length;
+        }
+
+        const nodes: AvlTreeNode<K, V>[] = [];
+        const removedNodes: { node: AvlTreeNode<K, V>; index: number }[] = [];
+        let i = 0;
+        for (let current = this.minNode(); current; current = current.successor()) {
+            while (i < sorted.length && this.compareFunction(sorted[i], current.key) < 0) {
+                i += 1;
+            }
+            if (i < sorted.length && this.compareFunction(sorted[i], current.key) === 0) {
+                // Each node is reported at its index after the removal of the nodes before it
+                removedNodes.push({ node: current, index: nodes.length });
+                i += 1;
+            } else {
+                nodes.push(current);
+            }
+        }
+        if (removedNodes.length > 0) {
+            this.relink(nodes);
+            for (const { node } of removedNodes) {
+                // Detach the node, so cursors can tell that it was removed
+                node.parent = undefined;
+                node.left = undefined;
+                node.right = undefined;
+            }
+            for (const { node, index } of removedNodes) {
+                this.emit('delete', node, index);
+            }
+        }
+        return removedNodes.length;
+    }
+
+    /**
+     * Removes all nodes with keys between two bounds, in O(log n) by splitting and joining the tree.
+     * With listeners for the 'delete' event, each of the k removed nodes is emitted, which takes O(k) more.
+     * @param from The lower bound
+     * @param to The upper bound
+     * @param options Whether the bounds are inclusive (default: both are)
+     * @returns The number of removed nodes
+     */
+    deleteRange(from: K, to: K, options: DeleteRangeOptions = {}): number {
+        const { fromInclusive = true, toInclusive = true } = options;
+        const [left, rest] = this.splitInto(from, !fromInclusive, true);
+        const [removed, right] = rest.splitInto(to, toInclusive, true);
+        const index = left.size;
+        this.setRoot(AvlTree.joinNodes(left, right, this.hooks));
+        this.flushRotations();
+
+        if (this.hasListeners('delete')) {
+            for (const node of removed.nodes()) {
+                this.emit('delete', node, index);
+            }
+        }
+        return removed.size;
+    }
+
+    /**
+     * Removes a node from the tree. Other nodes are not affected,
+     * so this removes a single entry even if the tree has duplicates of its key.
      * @param node The node to remove.
      */
     deleteNode(node: AvlTreeNode<K, V>): void {
+        this.checkNotRotating();
+        const index = this.hasListeners('delete') ? node.rank() : -1;
         let rebalanceStartNode: AvlTreeNode<K, V> | undefined;
         let removedNodeWasOnLeft: boolean;
 
@@ -307,10 +900,110 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
             throw new Error('Invariant failed; left/right child check inconsistent');
         }
         this._size -= 1;
+        this._modificationCount += 1;
+
+        // Every ancestor of the removed position lost one node in its subtree.
+        // Sizes must be correct before rebalancing, as rotations recompute them from their children.
+        adjustSizeUpwards(rebalanceStartNode, -1);
+        updateAggregatesUpwards(rebalanceStartNode, this.augmentation);
 
         if (rebalanceStartNode) {
             this.rebalanceAfterDeletion(rebalanceStartNode, removedNodeWasOnLeft);
+            this.flushRotations();
         }
+
+        if (index >= 0) {
+            this.emit('delete', node, index);
+        }
+    }
+
+    /**
+     * Removes a single entry from the tree, e.g. a node returned by `insert`. The same as `deleteNode`.
+     * @param node The node to remove.
+     */
+    deleteOne(node: AvlTreeNode<K, V>): void {
+        this.deleteNode(node);
+    }
+
+    /**
+     * Splits the tree at a key, into a tree with the lower keys and a tree with the higher keys.
+     * Runs in O(log n). The nodes are moved into the resulting trees, leaving this tree empty.
+     * @param key The key to split at (does not need to be present)
+     * @param options Which of the resulting trees receives the node with the split key, if present (default: right)
+     * @returns The tree with the lower keys and the tree with the higher keys
+     */
+    split(key: K, options: SplitOptions = {}): [AvlTree<K, V>, AvlTree<K, V>] {
+        const trees = this.splitInto(key, options.equalKey === 'left');
+        this.clear();
+        this.flushRotations();
+        return trees;
+    }
+
+    /**
+     * Creates a tree with the keys that occur in this tree or another tree. See `AvlTree.union`.
+     */
+    union(other: AvlTree<K, V>, resolve?: (key: K, value: V, otherValue: V) => V): AvlTree<K, V> {
+        return AvlTree.union(this, other, resolve);
+    }
+
+    /**
+     * Creates a tree with the keys that occur in both this tree and another tree. See `AvlTree.intersection`.
+     */
+    intersection(other: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.intersection(this, other);
+    }
+
+    /**
+     * Creates a tree with the keys of this tree that do not occur in another tree. See `AvlTree.difference`.
+     */
+    difference(other: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.difference(this, other);
+    }
+
+    /**
+     * Creates a tree with the keys that occur in either this tree or another tree, but not both.
+     * See `AvlTree.symmetricDifference`.
+     */
+    symmetricDifference(other: AvlTree<K, V>): AvlTree<K, V> {
+        return AvlTree.symmetricDifference(this, other);
+    }
+
+    /**
+     * Checks the invariants of this tree in a single pass, in O(n): parent links, balance factors,
+     * the AVL height bound, subtree sizes, the order of the keys according to the compare function, and the size.
+     * Meant for tests and debugging: a tree is only invalid after a bug, or when its compare function is inconsistent.
+     * @returns A report with all violations, instead of an error for the first one
+     */
+    validate(): ValidationReport<K> {
+        return validateTree(this._root, this.compareFunction, this._size, this.allowsDuplicates);
+    }
+
+    /**
+     * Gathers statistics about the shape of this tree, in O(n), and about the work done to keep it balanced.
+     * @returns The statistics
+     */
+    stats(): TreeStats {
+        const shape = measureTree(this._root);
+        return {
+            size: this._size,
+            height: shape.height,
+            minHeight: minBinaryTreeHeight(this._size),
+            maxHeight: maxAvlHeight(this._size),
+            leafCount: shape.leafCount,
+            balanceFactors: shape.balanceFactors,
+            averageDepth: shape.averageDepth,
+            maxDepth: shape.maxDepth,
+            rotations: this.rotationCount,
+            rebalances: this.rebalanceCount
+        };
+    }
+
+    /**
+     * Resets the counts of rotations and rebalances that are reported by `stats`.
+     */
+    resetStats(): void {
+        this.rotationCount = 0;
+        this.rebalanceCount = 0;
     }
 
     /**
@@ -438,32 +1131,284 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
         return current;
     }
 
-    at(index: number): [K, V] | undefined {
-        if (index < 0 || index >= this._size) {
-            throw new Error(`Index out of bounds: ${index}`);
-        }
-        let selected: [K, V] | undefined;
-        this.walk((entry, i, done) => {
-            if (index === i) {
-                selected = entry;
-                done();
-            }
-        });
-        return selected;
+    floorKey(key: K): K | undefined {
+        return this.floorNode(key)?.key;
     }
 
-    walk(fn: (entry: [K, V], index: number, done: () => void) => void): void {
-        let i = 0;
-        let isDone = false;
-        for (const entry of this) {
+    floorValue(key: K): V | undefined {
+        return this.floorNode(key)?.value;
+    }
+
+    floorEntry(key: K): [K, V] | undefined {
+        const node = this.floorNode(key);
+        return node ? [node.key, node.value] : undefined;
+    }
+
+    /**
+     * Finds the node with the greatest key less than or equal to a given key.
+     * @param key The key to search for (does not need to be present)
+     * @returns The node, or undefined if all keys are greater
+     */
+    floorNode(key: K): AvlTreeNode<K, V> | undefined {
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let candidate: AvlTreeNode<K, V> | undefined;
+        while (current) {
+            const cmp = this.compareFunction(key, current.key);
+            if (cmp < 0) {
+                current = current.left;
+            } else if (cmp > 0 || this.allowsDuplicates) {
+                // Current node qualifies, but a closer one may exist on the right
+                candidate = current;
+                current = current.right;
+            } else {
+                return current;
+            }
+        }
+        return candidate;
+    }
+
+    ceilingKey(key: K): K | undefined {
+        return this.ceilingNode(key)?.key;
+    }
+
+    ceilingValue(key: K): V | undefined {
+        return this.ceilingNode(key)?.value;
+    }
+
+    ceilingEntry(key: K): [K, V] | undefined {
+        const node = this.ceilingNode(key);
+        return node ? [node.key, node.value] : undefined;
+    }
+
+    /**
+     * Finds the node with the smallest key greater than or equal to a given key.
+     * @param key The key to search for (does not need to be present)
+     * @returns The node, or undefined if all keys are less
+     */
+    ceilingNode(key: K): AvlTreeNode<K, V> | undefined {
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let candidate: AvlTreeNode<K, V> | undefined;
+        while (current) {
+            const cmp = this.compareFunction(key, current.key);
+            if (cmp < 0 || (cmp === 0 && this.allowsDuplicates)) {
+                // Current node qualifies, but a closer one may exist on the left
+                candidate = current;
+                current = current.left;
+            } else if (cmp > 0) {
+                current = current.right;
+            } else {
+                return current;
+            }
+        }
+        return candidate;
+    }
+
+    lowerKey(key: K): K | undefined {
+        return this.lowerNode(key)?.key;
+    }
+
+    lowerValue(key: K): V | undefined {
+        return this.lowerNode(key)?.value;
+    }
+
+    lowerEntry(key: K): [K, V] | undefined {
+        const node = this.lowerNode(key);
+        return node ? [node.key, node.value] : undefined;
+    }
+
+    /**
+     * Finds the node with the greatest key strictly less than a given key.
+     * @param key The key to search for (does not need to be present)
+     * @returns The node, or undefined if no key is less
+     */
+    lowerNode(key: K): AvlTreeNode<K, V> | undefined {
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let candidate: AvlTreeNode<K, V> | undefined;
+        while (current) {
+            if (this.compareFunction(key, current.key) > 0) {
+                // Current node qualifies, but a closer one may exist on the right
+                candidate = current;
+                current = current.right;
+            } else {
+                current = current.left;
+            }
+        }
+        return candidate;
+    }
+
+    higherKey(key: K): K | undefined {
+        return this.higherNode(key)?.key;
+    }
+
+    higherValue(key: K): V | undefined {
+        return this.higherNode(key)?.value;
+    }
+
+    higherEntry(key: K): [K, V] | undefined {
+        const node = this.higherNode(key);
+        return node ? [node.key, node.value] : undefined;
+    }
+
+    /**
+     * Finds the node with the smallest key strictly greater than a given key.
+     * @param key The key to search for (does not need to be present)
+     * @returns The node, or undefined if no key is greater
+     */
+    higherNode(key: K): AvlTreeNode<K, V> | undefined {
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let candidate: AvlTreeNode<K, V> | undefined;
+        while (current) {
+            if (this.compareFunction(key, current.key) < 0) {
+                // Current node qualifies, but a closer one may exist on the left
+                candidate = current;
+                current = current.left;
+            } else {
+                current = current.right;
+            }
+        }
+        return candidate;
+    }
+
+    /**
+     * Gets the key-value pair at a position in the sorted sequence of this tree.
+     * Runs in O(log n).
+     * @param index The zero-based index
+     * @returns The key-value pair at the index
+     */
+    at(index: number): [K, V] | undefined {
+        const node = this.nodeAt(index);
+        return [node.key, node.value];
+    }
+
+    /**
+     * Gets the node at a position in the sorted sequence of this tree.
+     * Runs in O(log n).
+     * @param index The zero-based index
+     * @returns The node at the index
+     */
+    nodeAt(index: number): AvlTreeNode<K, V> {
+        if (index < 0 || index >= this._size) {
+            throw new Error(`Index out of bounds: ${index}`);
+        }
+
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let remaining = index;
+        while (current) {
+            const leftSize = getSize(current.left);
+            if (remaining < leftSize) {
+                current = current.left;
+            } else if (remaining > leftSize) {
+                remaining -= leftSize + 1;
+                current = current.right;
+            } else {
+                return current;
+            }
+        }
+
+        /* istanbul ignore next */
+        throw new Error(`Invariant failed: no node found at index ${index}`);
+    }
+
+    /**
+     * Determines the number of keys in this tree that are less than a given key.
+     * When the key is present, this is its index in the sorted sequence.
+     * Runs in O(log n).
+     * @param key The key to find the rank of (does not need to be present)
+     * @returns The number of keys less than the given key
+     */
+    rankOf(key: K): number {
+        return this.countKeysBefore(key, false);
+    }
+
+    /**
+     * Gets the index of a node in the sorted sequence of this tree.
+     * Runs in O(log n).
+     * @param node A node that belongs to this tree
+     * @returns The zero-based index of the node
+     */
+    indexOf(node: AvlTreeNode<K, V>): number {
+        return node.rank();
+    }
+
+    /**
+     * Combines the aggregates of all entries with keys between two bounds (inclusive), in key order.
+     * Runs in O(log n). Only available for trees created with the `augment` option.
+     * @param fromKey The lower bound, or undefined to start at the smallest key
+     * @param toKey The upper bound, or undefined to end at the greatest key
+     * @returns The aggregate, which is the identity if no keys are in range
+     */
+    aggregate<A = any>(fromKey?: K, toKey?: K): A {
+        const augmentation = this.augmentation as Augmentation<K, V, A> | undefined;
+        if (!augmentation) {
+            throw new Error('Cannot aggregate a tree that was created without the augment option');
+        }
+        return this.aggregateSubtree(this._root, augmentation, fromKey, toKey);
+    }
+
+    /**
+     * Executes a function on each key-value pair in the tree, with the option to stop early.
+     * @param fn The iteration function. Receives the in-order index of the entry, and a function to stop walking.
+     * @param options Whether to walk in descending order
+     */
+    walk(fn: (entry: [K, V], index: number, done: () => void) => void, options: WalkOptions = {}): void {
+        const { reverse = false } = options;
+        let i = reverse ? this._size - 1 : 0;
+        let isDone = false;
+        for (const entry of reverse ? this.reverseEntries() : this) {
             fn(entry, i, () => (isDone = true));
-            i += 1;
+            i += reverse ? -1 : 1;
             if (isDone) {
                 break;
             }
         }
     }
 
+    /**
+     * Iterates over the key-value pairs with keys between two bounds, in sorted order.
+     * Finds the first node in O(log n), then follows successors (or predecessors when reversed).
+     * @param from The lower bound, or undefined for no lower bound
+     * @param to The upper bound, or undefined for no upper bound
+     * @param options Whether the bounds are inclusive (default: both are) and whether to iterate in reverse
+     */
+    *range(from?: K, to?: K, options: RangeOptions = {}): Generator<[K, V]> {
+        const { fromInclusive = true, toInclusive = true, reverse = false } = options;
+        const modificationCount = this._modificationCount;
+
+        if (reverse) {
+            let current: AvlTreeNode<K, V> | undefined;
+            if (to === undefined) {
+                current = this.maxNode();
+            } else {
+                current = toInclusive ? this.floorNode(to) : this.lowerNode(to);
+            }
+
+            while (
+                current &&
+                (from === undefined || isWithinBound(this.compareFunction(current.key, from), fromInclusive))
+            ) {
+                yield [current.key, current.value];
+                checkModificationCount(this, modificationCount);
+                current = current.predecessor();
+            }
+        } else {
+            let current: AvlTreeNode<K, V> | undefined;
+            if (from === undefined) {
+                current = this.minNode();
+            } else {
+                current = fromInclusive ? this.ceilingNode(from) : this.higherNode(from);
+            }
+
+            while (
+                current &&
+                (to === undefined || isWithinBound(-this.compareFunction(current.key, to), toInclusive))
+            ) {
+                yield [current.key, current.value];
+                checkModificationCount(this, modificationCount);
+                current = current.successor();
+            }
+        }
+    }
+
     /**
      * @deprecated Use AvlTreeNode.predecessor() instead
      */
@@ -478,12 +1423,32 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
         return node.successor();
     }
 
+    /**
+     * Returns an iterator for the key-value pairs in sorted order, which can remove the current entry
+     * without breaking the iteration.
+     */
+    iterator(): AvlTreeIterator<K, V> {
+        return new AvlTreeIterator(this);
+    }
+
+    /**
+     * Creates a cursor for navigating the entries of this tree in both directions.
+     * @param key The key to position the cursor at, or the next higher key if it is not present.
+     *  Without a key, the cursor starts at the lowest key.
+     * @returns The cursor
+     */
+    cursor(key?: K): AvlTreeCursor<K, V> {
+        return new AvlTreeCursor(this, key === undefined ? this.minNode() : this.ceilingNode(key));
+    }
+
     /**
      * Returns an iterator for the nodes.
      * Usable with the 'for ... of' syntax.
+     * Throws an error if the tree is modified during the iteration (except through `iterator().remove()`).
      */
     *[Symbol.iterator](): Generator<[K, V]> {
         const stack: AvlTreeNode<K, V>[] = [];
+        const modificationCount = this._modificationCount;
 
         let current: AvlTreeNode<K, V> | undefined = this._root;
         let done = false;
@@ -494,6 +1459,7 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
             } else if (stack.length > 0) {
                 current = stack.pop() as AvlTreeNode<K, V>;
                 yield [current.key, current.value];
+                checkModificationCount(this, modificationCount);
                 current = current.right;
             } else {
                 done = true;
@@ -501,6 +1467,341 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
         }
     }
 
+    /**
+     * Returns an iterator for the key-value pairs in descending order.
+     */
+    *reverseEntries(): Generator<[K, V]> {
+        const stack: AvlTreeNode<K, V>[] = [];
+        const modificationCount = this._modificationCount;
+
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let done = false;
+        while (!done) {
+            if (current) {
+                stack.push(current);
+                current = current.right;
+            } else if (stack.length > 0) {
+                current = stack.pop() as AvlTreeNode<K, V>;
+                yield [current.key, current.value];
+                checkModificationCount(this, modificationCount);
+                current = current.left;
+            } else {
+                done = true;
+            }
+        }
+    }
+
+    /**
+     * Returns an iterator for the keys in descending order.
+     */
+    *reverseKeys(): Generator<K> {
+        for (const [key] of this.reverseEntries()) {
+            yield key;
+        }
+    }
+
+    /**
+     * Returns an iterator for the values in descending order of their keys.
+     */
+    *reverseValues(): Generator<V> {
+        for (const [, value] of this.reverseEntries()) {
+            yield value;
+        }
+    }
+
+    /**
+     * Moves the nodes of this tree into two new trees, split at a key. Leaves this tree in an invalid state:
+     * the caller must replace its root or clear it.
+     * @param shareHooks Whether the new trees report their rotations to this tree, for trees that only exist during
+     *  an operation of this tree
+     */
+    private splitInto(key: K, equalGoesLeft: boolean, shareHooks = false): [AvlTree<K, V>, AvlTree<K, V>] {
+        this.checkNotRotating();
+        const [left, right] = splitSubtree(
+            { node: this._root, height: getHeight(this._root) },
+            key,
+            this.compareFunction,
+            equalGoesLeft,
+            this.hooks
+        );
+
+        const [leftTree, rightTree] = [left.node, right.node].map(node => {
+            const tree = new AvlTree<K, V>(this.compareFunction, this.options);
+            if (shareHooks) {
+                tree.hooks = this.hooks;
+            }
+            tree.setRoot(node);
+            return tree;
+        });
+        return [leftTree, rightTree];
+    }
+
+    /**
+     * Gets all nodes of this tree in sorted order.
+     */
+    private nodes(): AvlTreeNode<K, V>[] {
+        const nodes: AvlTreeNode<K, V>[] = [];
+        for (let node = this.minNode(); node; node = node.successor()) {
+            nodes.push(node);
+        }
+        return nodes;
+    }
+
+    /**
+     * Sorts entries by key, keeping entries with equal keys in their original order.
+     * If the tree replaces duplicates, only the last of the entries with equal keys is kept.
+     */
+    private sortEntries(entries: [K, V][]): [K, V][] {
+        const sorted = entries
+            .map((entry, index) => ({ entry, index }))
+            .sort((a, b) => this.compareFunction(a.entry[0], b.entry[0]) || a.index - b.index)
+            .map(({ entry }) => entry);
+        if (this.options.duplicates !== 'replace') {
+            return sorted;
+        }
+        return sorted.filter(
+            ([key], i) => i === sorted.length - 1 || this.compareFunction(key, sorted[i + 1][0]) !== 0
+        );
+    }
+
+    /**
+     * Determines whether a batch operation on a number of keys is faster by relinking the whole tree in O(n)
+     * than by doing an O(log n) operation per key.
+     */
+    private prefersRebuild(count: number): boolean {
+        return count * Math.log2(this._size + 2) > this._size;
+    }
+
+    /**
+     * Finds the first of a list of sorted entries whose key is already in this tree, or repeats the key before it.
+     * @param sorted The entries, in ascending order of their keys
+     * @param walk Whether to walk the tree next to the entries in O(n + m), instead of searching each key
+     */
+    private findExistingEntry(sorted: [K, V][], walk: boolean): [K, V] | undefined {
+        let current = walk ? this.minNode() : undefined;
+        return sorted.find(([key], i) => {
+            if (i > 0 && this.compareFunction(sorted[i - 1][0], key) === 0) {
+                return true;
+            }
+            if (!walk) {
+                return this.has(key);
+            }
+            while (current && this.compareFunction(current.key, key) < 0) {
+                current = current.successor();
+            }
+            return current !== undefined && this.compareFunction(current.key, key) === 0;
+        });
+    }
+
+    /**
+     * Replaces the structure of this tree with a balanced tree of the given nodes.
+     * @param nodes The nodes, in ascending order of their keys
+     */
+    private relink(nodes: AvlTreeNode<K, V>[]): void {
+        const root = linkBalancedTree(nodes);
+        computeAggregates(root, this.augmentation);
+        this.setRoot(root);
+    }
+
+    /**
+     * Replaces the value of a node, keeping the aggregates of an augmented tree up to date.
+     */
+    private setNodeValue(node: AvlTreeNode<K, V>, value: V): void {
+        this.checkNotRotating();
+        const previousValue = node.setValue(value);
+        updateAggregatesUpwards(node, this.augmentation);
+        if (this.hasListeners('update')) {
+            this.emit('update', node, node.rank(), previousValue);
+        }
+    }
+
+    private hasListeners(event: AvlTreeEvent): boolean {
+        return !!this.listeners.get(event)?.length;
+    }
+
+    private emit<E extends AvlTreeEvent>(event: E, ...args: Parameters<AvlTreeEventMap<K, V>[E]>): void {
+        const listeners = this.listeners.get(event);
+        if (listeners) {
+            // Copy the listeners, as they may unsubscribe while being called
+            for (const listener of listeners.slice()) {
+                listener(...args);
+            }
+        }
+    }
+
+    /**
+     * Calls the rotation listener for the rotations that were made by the last operation, now that it is complete.
+     */
+    private flushRotations(): void {
+        const { onRotate } = this.options;
+        if (!onRotate || this.pendingRotations.length === 0) {
+            return;
+        }
+        const rotations = this.pendingRotations;
+        this.pendingRotations = [];
+        this.rotating = true;
+        try {
+            for (const [root, newRoot, direction] of rotations) {
+                onRotate(root, newRoot, direction);
+            }
+        } finally {
+            this.rotating = false;
+        }
+    }
+
+    /**
+     * Prevents modifications from within a rotation listener, which only gets to observe the tree.
+     */
+    private checkNotRotating(): void {
+        if (this.rotating) {
+            throw new Error('Cannot modify the tree from within a rotation listener');
+        }
+    }
+
+    /**
+     * Aggregates a subtree, restricted to the keys between two optional bounds.
+     * Once the bounds are on different sides of a node, each side only has a single bound left,
+     * so at most two paths are followed down the tree.
+     */
+    private aggregateSubtree<A>(
+        node: AvlTreeNode<K, V> | undefined,
+        augmentation: Augmentation<K, V, A>,
+        fromKey: K | undefined,
+        toKey: K | undefined
+    ): A {
+        if (!node) {
+            return augmentation.identity;
+        }
+        if (fromKey === undefined && toKey === undefined) {
+            return getAggregate(node, augmentation);
+        }
+        if (fromKey !== undefined && this.compareFunction(node.key, fromKey) < 0) {
+            return this.aggregateSubtree(node.right, augmentation, fromKey, toKey);
+        }
+        if (toKey !== undefined && this.compareFunction(node.key, toKey) > 0) {
+            return this.aggregateSubtree(node.left, augmentation, fromKey, toKey);
+        }
+        const { combine, fromNode } = augmentation;
+        return combine(
+            combine(this.aggregateSubtree(node.left, augmentation, fromKey, undefined), fromNode(node.key, node.value)),
+            this.aggregateSubtree(node.right, augmentation, undefined, toKey)
+        );
+    }
+
+    /**
+     * Replaces the contents of this tree with a detached subtree.
+     * @param root The root of the subtree, which determines the size of the tree
+     */
+    private setRoot(root: AvlTreeNode<K, V> | undefined): void {
+        this.checkNotRotating();
+        this._root = root;
+        this._size = root ? root.size : 0;
+        this._modificationCount += 1;
+    }
+
+    /**
+     * Counts the keys that are less than (or, optionally, equal to) a given key, in O(log n).
+     */
+    private countKeysBefore(key: K, includeEqual: boolean): number {
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let count = 0;
+        while (current) {
+            const cmp = this.compareFunction(key, current.key);
+            if (cmp < 0 || (cmp === 0 && !includeEqual)) {
+                current = current.left;
+            } else {
+                count += getSize(current.left) + 1;
+                current = current.right;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Finds the node with a key, or inserts a new node if there is none, in a single descent.
+     * @param key The key to search for
+     * @param createValue Creates the value for a new node; only called when inserting
+     * @param insertDuplicate Whether to insert a new node after any existing nodes with the key
+     * @returns The found or inserted node, and whether it was inserted
+     */
+    private findOrInsertNode(
+        key: K,
+        createValue: () => V,
+        insertDuplicate = false
+    ): { node: AvlTreeNode<K, V>; inserted: boolean } {
+        this.checkNotRotating();
+
+        let current: AvlTreeNode<K, V> | undefined = this._root;
+        let parent: AvlTreeNode<K, V> | undefined;
+        let found: AvlTreeNode<K, V> | undefined;
+
+        // Latest key-node comparison result
+        let cmp = 0;
+
+        // Travel downwards to find the insertion spot
+        while (current) {
+            cmp = this.compareFunction(key, current.key);
+            parent = current;
+            if (cmp < 0) {
+                current = current.left;
+            } else if (cmp > 0 || insertDuplicate) {
+                // Equal keys go to the right, so they stay in insertion order
+                cmp = 1;
+                current = current.right;
+            } else if (this.allowsDuplicates) {
+                // Key already present, but there may be equal keys before it
+                found = current;
+                current = current.left;
+            } else {
+                // Key already present
+                return { node: current, inserted: false };
+            }
+        }
+
+        if (found) {
+            return { node: found, inserted: false };
+        }
+
+        const modificationCount = this._modificationCount;
+        const value = createValue();
+        if (this._modificationCount !== modificationCount) {
+            // The value factory modified the tree, so the insertion spot may have moved
+            return this.findOrInsertNode(key, () => value, insertDuplicate);
+        }
+
+        // Shortcut for root
+        if (!parent) {
+            this._root = new AvlTreeNode<K, V>(key, value);
+            updateAggregate(this._root, this.augmentation);
+            this._size += 1;
+            this._modificationCount += 1;
+            this.emit('insert', this._root, 0);
+            return { node: this._root, inserted: true };
+        }
+
+        const newNode = new AvlTreeNode<K, V>(key, value, parent);
+
+        if (cmp < 0) {
+            parent.left = newNode;
+        } else {
+            parent.right = newNode;
+        }
+        this._size += 1;
+        this._modificationCount += 1;
+
+        // Every ancestor of the new node gained one node in its subtree
+        adjustSizeUpwards(parent, 1);
+        updateAggregatesUpwards(newNode, this.augmentation);
+
+        this.rebalanceAfterInsertion(newNode);
+        this.flushRotations();
+
+        if (this.hasListeners('insert')) {
+            this.emit('insert', newNode, newNode.rank());
+        }
+        return { node: newNode, inserted: true };
+    }
+
     private rebalanceAfterInsertion(child: AvlTreeNode<K, V>): void {
         let parent = child.parent;
 
@@ -525,14 +1826,15 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
             }
             if (parent.balanceFactor < -1) {
                 // Parent node is left-heavy
+                this.hooks.onRebalance?.();
 
                 // If its left child is right-heavy, rotate that child to the left first
                 if (parent.left && parent.left.balanceFactor > 0) {
-                    rotateLeft(parent.left);
+                    rotateLeft(parent.left, this.hooks);
                 }
 
                 // Parent is still left-heavy, rotate right around parent
-                const newParent: AvlTreeNode<K, V> = rotateRight(parent);
+                const newParent: AvlTreeNode<K, V> = rotateRight(parent, this.hooks);
 
                 // Replace root if necessary
                 if (parent === this._root) {
@@ -542,14 +1844,15 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
             }
             if (parent.balanceFactor > 1) {
                 // Parent node is right-heavy
+                this.hooks.onRebalance?.();
 
                 // If its right child is left-heavy, rotate the child to the right first
                 if (parent.right && parent.right.balanceFactor < 0) {
-                    rotateRight(parent.right);
+                    rotateRight(parent.right, this.hooks);
                 }
 
                 // Parent is still right-heavy, rotate left around parent
-                const newParent: AvlTreeNode<K, V> = rotateLeft(parent);
+                const newParent: AvlTreeNode<K, V> = rotateLeft(parent, this.hooks);
 
                 // Replace root if necessary
                 if (parent === this._root) {
@@ -594,14 +1897,15 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
             }
             if (parent.balanceFactor < -1) {
                 // Parent node is left-heavy
+                this.hooks.onRebalance?.();
 
                 // If its left child is right-heavy, rotate that child to the left first
                 if (parent.left && parent.left.balanceFactor > 0) {
-                    rotateLeft(parent.left);
+                    rotateLeft(parent.left, this.hooks);
                 }
 
                 // Parent is still left-heavy, rotate right around parent
-                const newParent: AvlTreeNode<K, V> = rotateRight(parent);
+                const newParent: AvlTreeNode<K, V> = rotateRight(parent, this.hooks);
 
                 // Replace root if necessary
                 if (parent === this._root) {
@@ -610,14 +1914,15 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
                 parent = newParent;
             } else if (parent.balanceFactor > 1) {
                 // Parent node is right-heavy
+                this.hooks.onRebalance?.();
 
                 // If its right child is left-heavy, rotate the child to the right first
                 if (parent.right && parent.right.balanceFactor < 0) {
-                    rotateRight(parent.right);
+                    rotateRight(parent.right, this.hooks);
                 }
 
                 // Parent is still right-heavy, rotate left around parent
-                const newParent: AvlTreeNode<K, V> = rotateLeft(parent);
+                const newParent: AvlTreeNode<K, V> = rotateLeft(parent, this.hooks);
 
                 // Replace root if necessary
                 if (parent === this._root) {
@@ -640,7 +1945,241 @@ export class AvlTree<K = any, V = any> implements Map<K, V> {
 
 export type CompareFunction<K> = (left: K, right: K) => number;
 
-function defaultCompareFunction<K>(a: K, b: K): number {
+/**
+ * How `set` handles a key that already exists in the tree:
+ * - `throw`: throw an error (default)
+ * - `replace`: replace the value of the existing node
+ * - `allow`: add another node with the same key, after the existing ones (a multimap)
+ */
+export type DuplicateKeyMode = 'throw' | 'replace' | 'allow';
+
+/**
+ * A user-defined aggregate that is maintained on every node, for the entries in its subtree.
+ * The aggregates form a monoid: `combine` must be associative, and `identity` must not change
+ * any value it is combined with. `combine` receives the aggregates in key order, so it does not
+ * need to be commutative.
+ */
+export interface Augmentation<K, V, A = any> {
+    /**
+     * Combines the aggregates of two adjacent ranges of keys
+     */
+    combine: (left: A, right: A) => A;
+    /**
+     * The aggregate of an empty range
+     */
+    identity: A;
+    /**
+     * Computes the aggregate of a single entry
+     */
+    fromNode: (key: K, value: V) => A;
+}
+
+export interface AvlTreeOptions<K = any, V = any> {
+    /**
+     * How `set` handles a key that already exists in the tree (default: 'throw')
+     */
+    duplicates?: DuplicateKeyMode;
+    /**
+     * Maintains a custom aggregate on every node, which enables `aggregate` queries in O(log n)
+     */
+    augment?: Augmentation<K, V>;
+    /**
+     * Called for every rotation, e.g. to visualise the rebalancing. The listener is called once the operation that
+     * made the rotation is complete, so it sees a consistent tree, which it cannot modify.
+     */
+    onRotate?: RotateListener<K, V>;
+    /**
+     * Checks the results of the compare function on every comparison, and throws an error naming the offending keys
+     * when they show that it does not define a total ordering (default: false).
+     * Meant for debugging: each comparison calls the compare function twice, plus once for every key met before it
+     * in the same descent (at most 64), so a lookup in a tree of height h takes O(h²) calls instead of O(h).
+     */
+    validateCompareFunction?: boolean;
+}
+
+/**
+ * Receives the root of a subtree before and after a rotation.
+ */
+export type RotateListener<K, V> = (
+    root: AvlTreeNode<K, V>,
+    newRoot: AvlTreeNode<K, V>,
+    direction: 'left' | 'right'
+) => void;
+
+/**
+ * The options of a tree that are needed to change its structure.
+ */
+export interface StructureHooks<K, V> extends Pick<AvlTreeOptions<K, V>, 'augment' | 'onRotate'> {
+    /**
+     * Called when a node is found out of balance, before the rotations that fix it
+     */
+    onRebalance?: () => void;
+}
+
+/**
+ * The listeners for each kind of change of a tree. See `AvlTree.on`.
+ */
+export interface AvlTreeEventMap<K, V> {
+    insert: (node: AvlTreeNode<K, V>, index: number) => void;
+    delete: (node: AvlTreeNode<K, V>, index: number) => void;
+    update: (node: AvlTreeNode<K, V>, index: number, previousValue: V) => void;
+    clear: () => void;
+}
+
+export type AvlTreeEvent = keyof AvlTreeEventMap<unknown, unknown>;
+
+/**
+ * The result of `AvlTree.stats`.
+ */
+export interface TreeStats extends TreeShape {
+    /**
+     * The number of nodes
+     */
+    size: number;
+    /**
+     * The lowest possible height of a binary tree of this size
+     */
+    minHeight: number;
+    /**
+     * The highest possible height of an AVL tree of this size
+     */
+    maxHeight: number;
+    /**
+     * The number of rotations since the tree was created or `resetStats` was called,
+     * including those made to join or split it
+     */
+    rotations: number;
+    /**
+     * The number of times a node was found out of balance and fixed with a single or double rotation,
+     * since the tree was created or `resetStats` was called, including those needed to join or split it
+     */
+    rebalances: number;
+}
+
+/**
+ * The shape of a tree, as found by visiting all of its nodes.
+ */
+export interface TreeShape {
+    /**
+     * The number of nodes on the longest path from the root down (0 for an empty tree)
+     */
+    height: number;
+    /**
+     * The number of nodes without children
+     */
+    leafCount: number;
+    /**
+     * The number of nodes for each balance factor
+     */
+    balanceFactors: Record<number, number>;
+    /**
+     * The average number of links from the root to a node (0 for an empty tree)
+     */
+    averageDepth: number;
+    /**
+     * The greatest number of links from the root to a node (0 for an empty tree)
+     */
+    maxDepth: number;
+}
+
+/**
+ * The result of `AvlTree.validate`.
+ */
+export interface ValidationReport<K> {
+    /**
+     * Whether all invariants hold
+     */
+    valid: boolean;
+    /**
+     * The number of nodes that were found
+     */
+    nodeCount: number;
+    /**
+     * The height of the tree, as found by following the child links (0 for an empty tree)
+     */
+    height: number;
+    /**
+     * The violated invariants, in the order they were found
+     */
+    issues: ValidationIssue<K>[];
+}
+
+/**
+ * A violated invariant of a tree:
+ * - `parent-link`: a node does not link back to its parent, or the root has a parent
+ * - `cycle`: a node is linked from more than one place
+ * - `balance-factor`: the balance factor of a node differs from the heights of its subtrees
+ * - `imbalance`: the heights of the subtrees of a node differ by more than one
+ * - `height-bound`: the tree is higher than an AVL tree with its number of nodes can be
+ * - `node-size`: the size of a node differs from the number of nodes in its subtree
+ * - `key-order`: a key is not greater than the key before it (or equal to it, in a tree that allows duplicates)
+ * - `tree-size`: the size of the tree differs from the number of nodes
+ */
+export interface ValidationIssue<K> {
+    kind: ValidationIssueKind;
+    /**
+     * The key of the offending node, if the issue is about a single node
+     */
+    key?: K;
+    message: string;
+}
+
+export type ValidationIssueKind =
+    | 'parent-link'
+    | 'cycle'
+    | 'balance-factor'
+    | 'imbalance'
+    | 'height-bound'
+    | 'node-size'
+    | 'key-order'
+    | 'tree-size';
+
+export interface SetManyResult {
+    /**
+     * The number of entries that were added as new nodes
+     */
+    inserted: number;
+    /**
+     * The number of existing nodes whose value was replaced
+     */
+    replaced: number;
+}
+
+export type DeleteRangeOptions = Pick<RangeOptions, 'fromInclusive' | 'toInclusive'>;
+
+export interface SplitOptions {
+    /**
+     * The side that receives the node with a key equal to the split key (default: 'right')
+     */
+    equalKey?: 'left' | 'right';
+}
+
+export interface WalkOptions {
+    /**
+     * Walk from the highest key down to the lowest (default: false)
+     */
+    reverse?: boolean;
+}
+
+export interface RangeOptions {
+    /**
+     * Whether the lower bound itself is part of the range (default: true)
+     */
+    fromInclusive?: boolean;
+    /**
+     * Whether the upper bound itself is part of the range (default: true)
+     */
+    toInclusive?: boolean;
+    /**
+     * Iterate from the upper bound down to the lower bound (default: false)
+     */
+    reverse?: boolean;
+}
+
+/**
+ * Compares two keys using the `<` and `>` operators.
+ */
+export function defaultCompareFunction<K>(a: K, b: K): number {
     if (a < b) {
         return -1;
     } else if (a > b) {
@@ -649,3 +2188,16 @@ function defaultCompareFunction<K>(a: K, b: K): number {
         return 0;
     }
 }
+
+/**
+ * Checks whether a key lies on the inner side of a range bound.
+ * @param cmp Comparison result, positive when the key lies on the inner side of the bound
+ * @param inclusive Whether a key equal to the bound is within the range
+ */
+function isWithinBound(cmp: number, inclusive: boolean): boolean {
+    return inclusive ? cmp >= 0 : cmp > 0;
+}
+
+function keepLeftValue<K, V>(_key: K, leftValue: V): V {
+    return leftValue;
+}
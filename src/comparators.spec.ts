@@ -0,0 +1,116 @@
+import { AvlTree } from './avl-tree';
+import {
+    by,
+    compareArrays,
+    compareBigInts,
+    compareDates,
+    compareNumbers,
+    compareStrings,
+    compareStringsIgnoreCase,
+    compareTuples,
+    reverse,
+    thenBy
+} from './comparators';
+
+describe('comparators', () => {
+    describe('compareNumbers', () => {
+        it('orders NaN after all other numbers', () => {
+            const numbers = [3, NaN, -Infinity, 1, Infinity, NaN, -2];
+
+            expect(numbers.sort(compareNumbers)).toEqual([-Infinity, -2, 1, 3, Infinity, NaN, NaN]);
+            expect(compareNumbers(NaN, NaN)).toBe(0);
+        });
+
+        it('treats -0 and 0 as equal', () => {
+            expect(compareNumbers(-0, 0)).toBe(0);
+        });
+
+        it('finds NaN keys in a tree', () => {
+            const tree = new AvlTree<number, string>(compareNumbers);
+            tree.set(1, 'one').set(NaN, 'not a number').set(2, 'two');
+
+            expect(tree.get(NaN)).toBe('not a number');
+            expect(tree.keyList()).toEqual([1, 2, NaN]);
+        });
+    });
+
+    it('compares bigints', () => {
+        expect([BigInt(3), BigInt(-1), BigInt(2)].sort(compareBigInts)).toEqual([BigInt(-1), BigInt(2), BigInt(3)]);
+    });
+
+    it('compares dates by their time, with invalid dates last', () => {
+        const dates = [new Date('invalid'), new Date(2000, 1, 1), new Date(1990, 1, 1)];
+
+        expect(dates.sort(compareDates).map(date => date.getTime())).toEqual([
+            new Date(1990, 1, 1).getTime(),
+            new Date(2000, 1, 1).getTime(),
+            NaN
+        ]);
+        expect(compareDates(new Date(0), new Date(0))).toBe(0);
+    });
+
+    describe('compareStrings', () => {
+        it('compares strings according to a locale', () => {
+            expect(['b', 'ä', 'a', 'B'].sort(compareStrings('de'))).toEqual(['a', 'ä', 'b', 'B']);
+            expect(['a10', 'a2'].sort(compareStrings('en', { numeric: true }))).toEqual(['a2', 'a10']);
+        });
+
+        it('ignores case', () => {
+            const tree = new AvlTree<string, number>(compareStringsIgnoreCase('en'), { duplicates: 'replace' });
+            tree.set('Hello', 1).set('hello', 2).set('héllo', 3);
+
+            expect(tree.size).toBe(2);
+            expect(tree.get('HELLO')).toBe(2);
+        });
+    });
+
+    it('compares arrays lexicographically', () => {
+        const compare = compareArrays<number>(compareNumbers);
+        const arrays = [[1, 2], [1], [0, 5], [], [1, 2, 0], [1, 10]];
+
+        expect(arrays.sort(compare)).toEqual([[], [0, 5], [1], [1, 2], [1, 2, 0], [1, 10]]);
+        expect(compare([1, 2], [1, 2])).toBe(0);
+    });
+
+    it('compares tuples with a compare function per element', () => {
+        const compare = compareTuples<[string, number]>(compareStrings('en'), reverse(compareNumbers));
+        const tuples: [string, number][] = [
+            ['b', 1],
+            ['a', 1],
+            ['a', 2]
+        ];
+
+        expect(tuples.sort(compare)).toEqual([
+            ['a', 2],
+            ['a', 1],
+            ['b', 1]
+        ]);
+    });
+
+    it('reverses a compare function', () => {
+        const tree = new AvlTree<number, string>(reverse());
+        tree.set(1, 'a').set(3, 'c').set(2, 'b');
+
+        expect(tree.keyList()).toEqual([3, 2, 1]);
+        expect(reverse()(1, 1)).toBe(0);
+    });
+
+    it('compares composite keys', () => {
+        interface Person {
+            firstName: string;
+            lastName: string;
+        }
+        const compare = thenBy<Person>(
+            by(person => person.lastName),
+            by(person => person.firstName)
+        );
+        const people: Person[] = [
+            { firstName: 'Bob', lastName: 'Smith' },
+            { firstName: 'Alice', lastName: 'Smith' },
+            { firstName: 'Carol', lastName: 'Jones' }
+        ];
+
+        expect(people.sort(compare).map(person => person.firstName)).toEqual(['Carol', 'Alice', 'Bob']);
+        expect(compare(people[0], { ...people[0] })).toBe(0);
+    });
+});
@@ -0,0 +1,122 @@
+import { CompareFunction, defaultCompareFunction } from './avl-tree';
+
+/**
+ * Compares numbers in ascending order. Unlike the default compare function, it gives `NaN` a place in the ordering:
+ * `NaN` comes after all other numbers, including `Infinity`, and all `NaN`s are equal to each other.
+ * `-0` and `0` are equal, as they are for `===` and for the keys of a `Map`.
+ */
+export function compareNumbers(a: number, b: number): number {
+    if (Number.isNaN(a) || Number.isNaN(b)) {
+        return Number(Number.isNaN(a)) - Number(Number.isNaN(b));
+    }
+    return defaultCompareFunction(a, b);
+}
+
+/**
+ * Compares bigints in ascending order.
+ */
+export function compareBigInts(a: bigint, b: bigint): number {
+    return defaultCompareFunction(a, b);
+}
+
+/**
+ * Compares dates by their time. Invalid dates come after all valid dates.
+ */
+export function compareDates(a: Date, b: Date): number {
+    return compareNumbers(a.getTime(), b.getTime());
+}
+
+/**
+ * Creates a compare function for strings that follows the rules of a language, using `Intl.Collator`.
+ * @param locales The locale(s) to use, e.g. 'en' or ['de', 'en'] (default: the locale of the runtime)
+ * @param options Collator options, e.g. `{ numeric: true }` to order 'a2' before 'a10'
+ */
+export function compareStrings(locales?: string | string[], options?: Intl.CollatorOptions): CompareFunction<string> {
+    return new Intl.Collator(locales, options).compare;
+}
+
+/**
+ * Creates a compare function for strings that ignores case, using `Intl.Collator`.
+ * Note that keys that only differ in case are equal, so a tree holds at most one of them.
+ * @param locales The locale(s) to use (default: the locale of the runtime)
+ */
+export function compareStringsIgnoreCase(locales?: string | string[]): CompareFunction<string> {
+    return compareStrings(locales, { sensitivity: 'accent' });
+}
+
+/**
+ * Creates a compare function that orders arrays lexicographically: by their first differing element,
+ * or by their length if one array is the start of the other.
+ * @param compareElements The compare function for the elements
+ */
+export function compareArrays<T>(
+    compareElements: CompareFunction<T> = defaultCompareFunction
+): CompareFunction<readonly T[]> {
+    return (a, b): number => {
+        const length = Math.min(a.length, b.length);
+        for (let i = 0; i < length; i++) {
+            const cmp = compareElements(a[i], b[i]);
+            if (cmp !== 0) {
+                return cmp;
+            }
+        }
+        return a.length - b.length;
+    };
+}
+
+/**
+ * Creates a compare function that orders tuples lexicographically, with a compare function for each position.
+ * @param compareFunctions The compare functions for the elements of the tuples
+ */
+export function compareTuples<T extends unknown[]>(
+    ...compareFunctions: { [I in keyof T]: CompareFunction<T[I]> }
+): CompareFunction<T> {
+    return (a, b): number => {
+        for (let i = 0; i < compareFunctions.length; i++) {
+            const cmp = (compareFunctions[i] as CompareFunction<unknown>)(a[i], b[i]);
+            if (cmp !== 0) {
+                return cmp;
+            }
+        }
+        return 0;
+    };
+}
+
+/**
+ * Reverses the ordering of a compare function.
+ * @param compareFunction The compare function to reverse
+ */
+export function reverse<T>(compareFunction: CompareFunction<T> = defaultCompareFunction): CompareFunction<T> {
+    // Avoids returning -0, so results can be checked with ===
+    return (a, b): number => compareFunction(b, a) || 0;
+}
+
+/**
+ * Creates a compare function that compares a part of a key.
+ * @param selector Gets the part to compare from a key, e.g. `person => person.lastName`
+ * @param compareFunction The compare function for the selected part
+ */
+export function by<T, U>(
+    selector: (key: T) => U,
+    compareFunction: CompareFunction<U> = defaultCompareFunction
+): CompareFunction<T> {
+    return (a, b): number => compareFunction(selector(a), selector(b));
+}
+
+/**
+ * Combines compare functions for composite keys: each compare function decides when the ones before it found
+ * the keys equal.
+ * @param compareFunctions The compare functions, from most to least significant
+ * @example thenBy(by(person => person.lastName), by(person => person.firstName))
+ */
+export function thenBy<T>(...compareFunctions: CompareFunction<T>[]): CompareFunction<T> {
+    return (a, b): number => {
+        for (const compareFunction of compareFunctions) {
+            const cmp = compareFunction(a, b);
+            if (cmp !== 0) {
+                return cmp;
+            }
+        }
+        return 0;
+    };
+}
@@ -1,2 +1,9 @@
+export * from './avl-interval-tree';
+export * from './avl-set';
 export * from './avl-tree';
+export * from './avl-tree-cursor';
+export { AvlTreeIterator } from './avl-tree-iterator';
 export * from './avl-tree-node';
+export * from './avl-tree-serialization';
+export * from './persistent-avl-tree';
+export * from './comparators';
@@ -0,0 +1,183 @@
+import { AvlTree } from './avl-tree';
+import { PersistentAvlTree, PersistentAvlTreeNode } from './persistent-avl-tree';
+
+describe('PersistentAvlTree', () => {
+    it('initializes with zero size', () => {
+        const tree = new PersistentAvlTree<number, string>();
+        expect(tree.size).toBe(0);
+        expect(tree.root).toBeUndefined();
+    });
+
+    describe('set', () => {
+        it('returns a new tree and leaves the original untouched', () => {
+            const empty = new PersistentAvlTree<number, string>();
+            const one = empty.set(1, 'one');
+            const two = one.set(2, 'two');
+
+            expect(empty.size).toBe(0);
+            expect(one.entryList()).toEqual([[1, 'one']]);
+            expect(two.entryList()).toEqual([
+                [1, 'one'],
+                [2, 'two']
+            ]);
+        });
+
+        it('replaces the value of an existing key', () => {
+            const tree = new PersistentAvlTree<number, string>().set(1, 'one');
+            const updated = tree.set(1, 'uno');
+
+            expect(tree.get(1)).toBe('one');
+            expect(updated.get(1)).toBe('uno');
+            expect(updated.size).toBe(1);
+        });
+
+        it('returns the same tree when nothing changes', () => {
+            const tree = new PersistentAvlTree<number, string>().set(1, 'one');
+            expect(tree.set(1, 'one')).toBe(tree);
+        });
+
+        it('shares untouched subtrees', () => {
+            let tree = new PersistentAvlTree<number, number>();
+            for (let i = 0; i < 100; i += 1) {
+                tree = tree.set(i, i);
+            }
+            const updated = tree.set(1000, 1000);
+
+            // Only the path along the right spine is copied
+            expect(updated.root?.left).toBe(tree.root?.left);
+            expect(updated.root).not.toBe(tree.root);
+        });
+
+        it('stays balanced with random insertions', () => {
+            let tree = new PersistentAvlTree<number, number>();
+            const keys = shuffle(range(200));
+            for (const key of keys) {
+                tree = tree.set(key, key * 2);
+                checkPersistentTree(tree.root);
+            }
+            expect(tree.size).toBe(200);
+            expect(tree.keyList()).toEqual(range(200));
+            expect(tree.get(123)).toBe(246);
+        });
+    });
+
+    describe('delete', () => {
+        it('returns a new tree without the key', () => {
+            const tree = new PersistentAvlTree<number, string>().set(1, 'one').set(2, 'two');
+            const deleted = tree.delete(1);
+
+            expect(tree.has(1)).toBe(true);
+            expect(deleted.has(1)).toBe(false);
+            expect(deleted.size).toBe(1);
+        });
+
+        it('returns the same tree when the key is not present', () => {
+            const tree = new PersistentAvlTree<number, string>().set(1, 'one');
+            expect(tree.delete(2)).toBe(tree);
+        });
+
+        it('stays balanced with random deletions', () => {
+            let tree = new PersistentAvlTree<number, number>();
+            for (const key of range(200)) {
+                tree = tree.set(key, key);
+            }
+            const snapshot = tree;
+            const keys = shuffle(range(200));
+            for (const key of keys) {
+                tree = tree.delete(key);
+                checkPersistentTree(tree.root);
+            }
+            expect(tree.size).toBe(0);
+            expect(snapshot.keyList()).toEqual(range(200));
+        });
+    });
+
+    describe('clear', () => {
+        it('returns an empty tree', () => {
+            const tree = new PersistentAvlTree<number, string>().set(1, 'one');
+            expect(tree.clear().size).toBe(0);
+            expect(tree.size).toBe(1);
+        });
+    });
+
+    describe('read API', () => {
+        const createTree = (): PersistentAvlTree<number, string> =>
+            [100, 50, 150, 125, 200, 40].reduce(
+                (tree, key) => tree.set(key, `${key}`),
+                new PersistentAvlTree<number, string>()
+            );
+
+        it('finds the minimum and maximum', () => {
+            const tree = createTree();
+            expect(tree.minKey()).toBe(40);
+            expect(tree.minValue()).toBe('40');
+            expect(tree.maxKey()).toBe(200);
+            expect(tree.maxValue()).toBe('200');
+            expect(new PersistentAvlTree().minKey()).toBeUndefined();
+            expect(new PersistentAvlTree().maxKey()).toBeUndefined();
+        });
+
+        it('iterates in sorted order', () => {
+            const tree = createTree();
+            expect(Array.from(tree.keys())).toEqual([40, 50, 100, 125, 150, 200]);
+            expect(Array.from(tree.values())).toEqual(['40', '50', '100', '125', '150', '200']);
+            expect(Array.from(tree.entries())[0]).toEqual([40, '40']);
+
+            const iter = jest.fn();
+            tree.forEach(iter);
+            expect(iter).toHaveBeenNthCalledWith(1, '40', 40, tree);
+        });
+
+        it('gets entries by index', () => {
+            const tree = createTree();
+            expect(tree.at(0)).toEqual([40, '40']);
+            expect(tree.at(5)).toEqual([200, '200']);
+            expect(() => tree.at(6)).toThrowError('Index out of bounds: 6');
+        });
+
+        it('produces the same JSON format as AvlTree', () => {
+            const tree = createTree();
+            const avlTree = new AvlTree<number, string>();
+            [100, 50, 150, 125, 200, 40].forEach(key => avlTree.insert(key, `${key}`));
+
+            expect(tree.toJSON()).toEqual(avlTree.toJSON());
+            expect(new PersistentAvlTree().toJSON()).toBeUndefined();
+        });
+
+        it('uses the compare function', () => {
+            const tree = new PersistentAvlTree<number, number>((a, b) => b - a).set(1, 1).set(3, 3).set(2, 2);
+            expect(tree.keyList()).toEqual([3, 2, 1]);
+        });
+    });
+});
+
+function checkPersistentTree<K, V>(node: PersistentAvlTreeNode<K, V> | undefined): void {
+    if (!node) {
+        return;
+    }
+    const leftHeight = node.left ? node.left.height : 0;
+    const rightHeight = node.right ? node.right.height : 0;
+    if (Math.abs(rightHeight - leftHeight) > 1) {
+        throw new Error(`Node ${node.key} is not balanced`);
+    }
+    if (node.height !== Math.max(leftHeight, rightHeight) + 1) {
+        throw new Error(`Node ${node.key} has an incorrect height`);
+    }
+    if (node.size !== (node.left ? node.left.size : 0) + (node.right ? node.right.size : 0) + 1) {
+        throw new Error(`Node ${node.key} has an incorrect size`);
+    }
+    checkPersistentTree(node.left);
+    checkPersistentTree(node.right);
+}
+
+function range(count: number): number[] {
+    return Array.from({ length: count }, (_, i) => i);
+}
+
+function shuffle<T>(array: T[]): T[] {
+    for (let i = array.length - 1; i > 0; i -= 1) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [array[i], array[j]] = [array[j], array[i]];
+    }
+    return array;
+}
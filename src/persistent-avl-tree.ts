@@ -0,0 +1,412 @@
+import { CompareFunction, defaultCompareFunction } from './avl-tree';
+import { AvlTreeNodeJson } from './avl-tree-node';
+
+/**
+ * An immutable node of a persistent AVL tree.
+ * Nodes have no parent links, so they can be shared between multiple versions of a tree.
+ */
+export interface PersistentAvlTreeNode<K, V> {
+    readonly key: K;
+    readonly value: V;
+    readonly left?: PersistentAvlTreeNode<K, V>;
+    readonly right?: PersistentAvlTreeNode<K, V>;
+    /**
+     * The height of the subtree rooted at this node
+     */
+    readonly height: number;
+    /**
+     * The number of nodes in the subtree rooted at this node (including itself)
+     */
+    readonly size: number;
+}
+
+/**
+ * A persistent (immutable) AVL tree.
+ * Modifications return a new tree that shares all untouched subtrees with the original one,
+ * so keeping older versions around (e.g. for undo) is cheap.
+ */
+export class PersistentAvlTree<K = any, V = any> implements ReadonlyMap<K, V> {
+    private _root?: PersistentAvlTreeNode<K, V>;
+
+    /**
+     * Creates an empty persistent AVL tree.
+     * @param compareFunction A comparison function that enforces a total ordering:
+     *  i.e. if fn(a, b) < 0 then fn(b, a) > 0.
+     */
+    constructor(private readonly compareFunction: CompareFunction<K> = defaultCompareFunction) {}
+
+    /**
+     * The number of elements in the tree.
+     */
+    get size(): number {
+        return this._root ? this._root.size : 0;
+    }
+
+    /**
+     * The root node of the tree.
+     */
+    get root(): PersistentAvlTreeNode<K, V> | undefined {
+        return this._root;
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'PersistentAvlTree';
+    }
+
+    /**
+     * Converts the tree to a structure that can be serialized to JSON,
+     * in the same format as `AvlTree.toJSON`.
+     * @returns A JSON-friendly represenation of this tree.
+     */
+    toJSON(): AvlTreeNodeJson<K, V> | undefined {
+        return this._root ? nodeToJson(this._root) : undefined;
+    }
+
+    /**
+     * Checks if the tree contains a certain key.
+     * @param key The key to check
+     * @returns True if the key exists in this tree, false otherwise.
+     */
+    has(key: K): boolean {
+        return !!this.getNode(key);
+    }
+
+    /**
+     * Finds a node with a specified key.
+     * @param key Key to search for.
+     * @returns The node, or undefined if not found
+     */
+    getNode(key: K): PersistentAvlTreeNode<K, V> | undefined {
+        let current = this._root;
+        while (current) {
+            const cmp = this.compareFunction(key, current.key);
+            if (cmp < 0) {
+                current = current.left;
+            } else if (cmp > 0) {
+                current = current.right;
+            } else {
+                break;
+            }
+        }
+        return current;
+    }
+
+    /**
+     * Finds a value associated with a specified key.
+     * @param key Key to search for.
+     * @returns The value, or undefined if not found.
+     */
+    get(key: K): V | undefined {
+        return this.getNode(key)?.value;
+    }
+
+    /**
+     * Creates a tree in which a key is associated with a value.
+     * Only the nodes on the path to the key are copied.
+     * @param key The key used to determine the order in the tree
+     * @param value The value attached to the key
+     * @returns The new tree, or this tree if the key already had this value
+     */
+    set(key: K, value: V): PersistentAvlTree<K, V> {
+        return this.withRoot(insertNode(this._root, key, value, this.compareFunction));
+    }
+
+    /**
+     * Creates a tree without a key.
+     * Only the nodes on the path to the key are copied.
+     * @param key The key to remove
+     * @returns The new tree, or this tree if the key was not present
+     */
+    delete(key: K): PersistentAvlTree<K, V> {
+        return this.withRoot(deleteNode(this._root, key, this.compareFunction));
+    }
+
+    /**
+     * Creates an empty tree with the same compare function.
+     * @returns The empty tree
+     */
+    clear(): PersistentAvlTree<K, V> {
+        return this.withRoot(undefined);
+    }
+
+    minKey(): K | undefined {
+        return this.minNode()?.key;
+    }
+
+    minValue(): V | undefined {
+        return this.minNode()?.value;
+    }
+
+    minNode(): PersistentAvlTreeNode<K, V> | undefined {
+        let current = this._root;
+        while (current?.left) {
+            current = current.left;
+        }
+        return current;
+    }
+
+    maxKey(): K | undefined {
+        return this.maxNode()?.key;
+    }
+
+    maxValue(): V | undefined {
+        return this.maxNode()?.value;
+    }
+
+    maxNode(): PersistentAvlTreeNode<K, V> | undefined {
+        let current = this._root;
+        while (current?.right) {
+            current = current.right;
+        }
+        return current;
+    }
+
+    /**
+     * Gets the key-value pair at a position in the sorted sequence of this tree.
+     * Runs in O(log n).
+     * @param index The zero-based index
+     * @returns The key-value pair at the index
+     */
+    at(index: number): [K, V] {
+        if (index < 0 || index >= this.size) {
+            throw new Error(`Index out of bounds: ${index}`);
+        }
+        let current = this._root;
+        let remaining = index;
+        while (current) {
+            const leftSize = current.left ? current.left.size : 0;
+            if (remaining < leftSize) {
+                current = current.left;
+            } else if (remaining > leftSize) {
+                remaining -= leftSize + 1;
+                current = current.right;
+            } else {
+                return [current.key, current.value];
+            }
+        }
+
+        /* istanbul ignore next */
+        throw new Error(`Invariant failed: no node found at index ${index}`);
+    }
+
+    *keys(): Generator<K> {
+        for (const [key] of this) {
+            yield key;
+        }
+    }
+
+    keyList(): K[] {
+        return Array.from(this.keys());
+    }
+
+    *values(): Generator<V> {
+        for (const [, value] of this) {
+            yield value;
+        }
+    }
+
+    valueList(): V[] {
+        return Array.from(this.values());
+    }
+
+    *entries(): Generator<[K, V]> {
+        for (const [key, value] of this) {
+            yield [key, value];
+        }
+    }
+
+    entryList(): [K, V][] {
+        return Array.from(this.entries());
+    }
+
+    /**
+     * Executes a function on each node in the tree.
+     * @param fn The iteration function
+     */
+    // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+    forEach(fn: (value: V, key: K, map: PersistentAvlTree<K, V>) => void, thisArg?: any): void {
+        for (const [key, value] of this) {
+            fn.apply(thisArg, [value, key, this]);
+        }
+    }
+
+    /**
+     * Returns an iterator for the nodes.
+     * Usable with the 'for ... of' syntax.
+     */
+    *[Symbol.iterator](): Generator<[K, V]> {
+        const stack: PersistentAvlTreeNode<K, V>[] = [];
+
+        let current = this._root;
+        let done = false;
+        while (!done) {
+            if (current) {
+                stack.push(current);
+                current = current.left;
+            } else if (stack.length > 0) {
+                current = stack.pop() as PersistentAvlTreeNode<K, V>;
+                yield [current.key, current.value];
+                current = current.right;
+            } else {
+                done = true;
+            }
+        }
+    }
+
+    private withRoot(root: PersistentAvlTreeNode<K, V> | undefined): PersistentAvlTree<K, V> {
+        if (root === this._root) {
+            return this;
+        }
+        const tree = new PersistentAvlTree<K, V>(this.compareFunction);
+        tree._root = root;
+        return tree;
+    }
+}
+
+function getHeight<K, V>(node: PersistentAvlTreeNode<K, V> | undefined): number {
+    return node ? node.height : 0;
+}
+
+function createNode<K, V>(
+    key: K,
+    value: V,
+    left: PersistentAvlTreeNode<K, V> | undefined,
+    right: PersistentAvlTreeNode<K, V> | undefined
+): PersistentAvlTreeNode<K, V> {
+    return Object.freeze({
+        key,
+        value,
+        left,
+        right,
+        height: Math.max(getHeight(left), getHeight(right)) + 1,
+        size: (left ? left.size : 0) + (right ? right.size : 0) + 1
+    });
+}
+
+/**
+ * Creates a node with the given children, rotating if their heights differ by more than one.
+ */
+function balance<K, V>(
+    key: K,
+    value: V,
+    left: PersistentAvlTreeNode<K, V> | undefined,
+    right: PersistentAvlTreeNode<K, V> | undefined
+): PersistentAvlTreeNode<K, V> {
+    const leftHeight = getHeight(left);
+    const rightHeight = getHeight(right);
+
+    if (left && leftHeight > rightHeight + 1) {
+        if (getHeight(left.left) >= getHeight(left.right)) {
+            // Rotate right
+            return createNode(left.key, left.value, left.left, createNode(key, value, left.right, right));
+        }
+        // Rotate left around the left child, then right
+        const pivot = left.right as PersistentAvlTreeNode<K, V>;
+        return createNode(
+            pivot.key,
+            pivot.value,
+            createNode(left.key, left.value, left.left, pivot.left),
+            createNode(key, value, pivot.right, right)
+        );
+    }
+
+    if (right && rightHeight > leftHeight + 1) {
+        if (getHeight(right.right) >= getHeight(right.left)) {
+            // Rotate left
+            return createNode(right.key, right.value, createNode(key, value, left, right.left), right.right);
+        }
+        // Rotate right around the right child, then left
+        const pivot = right.left as PersistentAvlTreeNode<K, V>;
+        return createNode(
+            pivot.key,
+            pivot.value,
+            createNode(key, value, left, pivot.left),
+            createNode(right.key, right.value, pivot.right, right.right)
+        );
+    }
+
+    return createNode(key, value, left, right);
+}
+
+/**
+ * Inserts or replaces a key, copying the path to it.
+ * @returns The new subtree root, or the same node if nothing changed
+ */
+function insertNode<K, V>(
+    node: PersistentAvlTreeNode<K, V> | undefined,
+    key: K,
+    value: V,
+    compareFunction: CompareFunction<K>
+): PersistentAvlTreeNode<K, V> {
+    if (!node) {
+        return createNode(key, value, undefined, undefined);
+    }
+    const cmp = compareFunction(key, node.key);
+    if (cmp < 0) {
+        const left = insertNode(node.left, key, value, compareFunction);
+        return left === node.left ? node : balance(node.key, node.value, left, node.right);
+    }
+    if (cmp > 0) {
+        const right = insertNode(node.right, key, value, compareFunction);
+        return right === node.right ? node : balance(node.key, node.value, node.left, right);
+    }
+    return node.value === value ? node : createNode(node.key, value, node.left, node.right);
+}
+
+/**
+ * Removes a key, copying the path to it.
+ * @returns The new subtree root, or the same node if the key was not found
+ */
+function deleteNode<K, V>(
+    node: PersistentAvlTreeNode<K, V> | undefined,
+    key: K,
+    compareFunction: CompareFunction<K>
+): PersistentAvlTreeNode<K, V> | undefined {
+    if (!node) {
+        return undefined;
+    }
+    const cmp = compareFunction(key, node.key);
+    if (cmp < 0) {
+        const left = deleteNode(node.left, key, compareFunction);
+        return left === node.left ? node : balance(node.key, node.value, left, node.right);
+    }
+    if (cmp > 0) {
+        const right = deleteNode(node.right, key, compareFunction);
+        return right === node.right ? node : balance(node.key, node.value, node.left, right);
+    }
+    if (!node.left) {
+        return node.right;
+    }
+    if (!node.right) {
+        return node.left;
+    }
+
+    // Replace the node with its successor
+    let successor = node.right;
+    while (successor.left) {
+        successor = successor.left;
+    }
+    return balance(successor.key, successor.value, node.left, deleteMinNode(node.right));
+}
+
+function deleteMinNode<K, V>(node: PersistentAvlTreeNode<K, V>): PersistentAvlTreeNode<K, V> | undefined {
+    if (!node.left) {
+        return node.right;
+    }
+    return balance(node.key, node.value, deleteMinNode(node.left), node.right);
+}
+
+function nodeToJson<K, V>(node: PersistentAvlTreeNode<K, V>): AvlTreeNodeJson<K, V> {
+    const json: AvlTreeNodeJson<K, V> = {
+        key: node.key,
+        value: node.value,
+        balanceFactor: getHeight(node.right) - getHeight(node.left)
+    };
+    if (node.left) {
+        json.left = nodeToJson(node.left);
+    }
+    if (node.right) {
+        json.right = nodeToJson(node.right);
+    }
+    return json;
+}
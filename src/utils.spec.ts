@@ -0,0 +1,92 @@
+import * as path from 'path';
+import { AvlTree } from './avl-tree';
+import { AvlTreeNode } from './avl-tree-node';
+import * as utils from './utils';
+import { checkTree, computeHeight, NodePrinter, printTreeNode, rotateLeft, rotateRight, validateTree } from './utils';
+
+describe('quick-avl/utils', () => {
+    const createTree = (): AvlTree<number, string> =>
+        AvlTree.fromSorted([
+            [1, 'one'],
+            [2, 'two'],
+            [3, 'three']
+        ]);
+
+    it('exports the supported helpers', () => {
+        expect(Object.keys(utils).sort()).toEqual([
+            'checkTree',
+            'computeHeight',
+            'printTreeNode',
+            'rotateLeft',
+            'rotateRight',
+            'validateTree'
+        ]);
+    });
+
+    it('is the module of the utils entry point of the package', () => {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { main, types } = require('../utils/package.json');
+
+        expect(path.resolve(__dirname, '../utils', main)).toBe(path.resolve(__dirname, '../dist/utils.js'));
+        expect(path.resolve(__dirname, '../utils', types)).toBe(path.resolve(__dirname, '../dist/utils.d.ts'));
+    });
+
+    describe('printTreeNode', () => {
+        it('prints the keys and balance factors by default', () => {
+            expect(printTreeNode(createTree().root)).toBe('└── 2 [0]\n    ├── 1 [0]\n    └── 3 [0]\n');
+            expect(printTreeNode(undefined)).toBe('');
+        });
+
+        it('prints nodes with a custom formatter', () => {
+            const printNode: NodePrinter<number, string> = node => `${node.key}: ${node.value}`;
+
+            expect(printTreeNode(createTree().root, printNode)).toBe('└── 2: two\n    ├── 1: one\n    └── 3: three\n');
+        });
+    });
+
+    it('computes the height of a subtree', () => {
+        const root = createTree().root;
+
+        expect(computeHeight(root)).toBe(2);
+        expect(computeHeight(root?.left)).toBe(1);
+        expect(computeHeight(undefined)).toBe(0);
+    });
+
+    it('checks a tree, throwing an error on the first violation', () => {
+        const root = createTree().root as AvlTreeNode<number, string>;
+        expect(() => checkTree(root)).not.toThrow();
+
+        root.balanceFactor = 1;
+        expect(() => checkTree(root)).toThrowError('Balance factor of node 2 is 1, but should be 0');
+    });
+
+    it('validates a tree, reporting all violations', () => {
+        const root = createTree().root as AvlTreeNode<number, string>;
+        expect(validateTree(root, (a, b) => a - b, 3).valid).toBe(true);
+
+        const report = validateTree(root, (a, b) => b - a, 4);
+        expect(report.issues.map(issue => issue.kind)).toEqual(['key-order', 'key-order', 'tree-size']);
+    });
+
+    it('rotates nodes that are not part of a tree', () => {
+        const root = AvlTreeNode.fromJSON<number, string>({
+            key: 1,
+            value: 'one',
+            balanceFactor: 2,
+            right: { key: 2, value: 'two', balanceFactor: 1, right: { key: 3, value: 'three', balanceFactor: 0 } }
+        });
+        const rotations: string[] = [];
+
+        const newRoot = rotateLeft(root, {
+            onRotate: (_, node, direction) => rotations.push(`${direction} ${node.key}`)
+        });
+        expect(newRoot.key).toBe(2);
+        expect(newRoot.parent).toBeUndefined();
+        expect(() => checkTree(newRoot)).not.toThrow();
+
+        const originalRoot = rotateRight(newRoot);
+        expect(originalRoot).toBe(root);
+        expect(printTreeNode(originalRoot)).toBe('└── 1 [2]\n    └── 2 [1]\n        └── 3 [0]\n');
+        expect(rotations).toEqual(['left 2']);
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * Advanced helpers for working with tree nodes directly, available as `quick-avl/utils`.
+ *
+ * These are the building blocks of `AvlTree`, for debugging, testing and visualising trees.
+ * The rotations change the links between nodes without updating the tree that holds them:
+ * only use them on nodes that do not belong to an `AvlTree`, e.g. a copy made with `AvlTreeNode.fromJSON`.
+ */
+export {
+    checkTree,
+    computeHeight,
+    NodePrinter,
+    printTreeNode,
+    rotateLeft,
+    rotateRight,
+    validateTree
+} from './avl-tree-utils';
@@ -0,0 +1,77 @@
+import { AvlTree, CompareFunction, defaultCompareFunction } from './avl-tree';
+import { validatingCompareFunction } from './validating-compare-function';
+
+describe('validatingCompareFunction', () => {
+    const createTree = (compareFunction: CompareFunction<number>): AvlTree<number, string> =>
+        new AvlTree<number, string>(compareFunction, { validateCompareFunction: true });
+
+    it('accepts a compare function that defines a total ordering', () => {
+        const tree = createTree(defaultCompareFunction);
+        const keys = [50, 20, 80, 10, 30, 70, 90, 25, 35, 5, 95, 60, 65];
+        keys.forEach(key => tree.set(key, `${key}`));
+        tree.delete(20);
+
+        expect(tree.keyList()).toEqual(keys.filter(key => key !== 20).sort((a, b) => a - b));
+        expect(tree.get(65)).toBe('65');
+        expect(tree.floorKey(21)).toBe(10);
+    });
+
+    it('rejects results that are not numbers', () => {
+        const tree = createTree(() => undefined as unknown as number);
+        tree.set(1, 'one');
+
+        expect(() => tree.set(2, 'two')).toThrowError(
+            'Invalid compare function result: comparing 2 to 1 gives undefined, instead of a number'
+        );
+    });
+
+    it('rejects NaN results', () => {
+        const tree = createTree((a, b) => a - b);
+        tree.set(1, 'one');
+
+        expect(() => tree.get(NaN)).toThrowError(
+            'Invalid compare function result: comparing NaN to 1 gives NaN, instead of a number'
+        );
+    });
+
+    it('detects a compare function that is not antisymmetric', () => {
+        const tree = createTree(() => 1);
+        tree.set(1, 'one');
+
+        expect(() => tree.set(2, 'two')).toThrowError(
+            'Inconsistent compare function: comparing 2 to 1 gives 1, but comparing 1 to 2 gives 1'
+        );
+    });
+
+    it('detects a compare function that is not transitive', () => {
+        // Decides arbitrarily, but consistently, which of two different keys is less
+        const tournament = (a: number, b: number): number => {
+            const [low, high] = a < b ? [a, b] : [b, a];
+            const flipped = (low * 7 + high * 13) % 5 < 2;
+            return a === b ? 0 : a < b !== flipped ? -1 : 1;
+        };
+        const keys = repeat(30, i => (i * 7) % 30);
+        const plainTree = new AvlTree<number, string>(tournament);
+        keys.forEach(key => plainTree.set(key, `${key}`));
+        const tree = createTree(tournament);
+
+        expect(plainTree.get(28)).toBeUndefined();
+        expect(() => keys.forEach(key => tree.set(key, `${key}`))).toThrowError(
+            'Inconsistent compare function: 21 < 4 and 4 <= 28, but not 21 < 28'
+        );
+    });
+
+    it('does not wrap a validating compare function again', () => {
+        const compareFunction = validatingCompareFunction(defaultCompareFunction);
+
+        expect(validatingCompareFunction(compareFunction)).toBe(compareFunction);
+    });
+});
+
+function repeat<T>(times: number, fn: (iteration: number) => T): T[] {
+    const results: T[] = [];
+    for (let i = 0; i < times; i++) {
+        results.push(fn(i));
+    }
+    return results;
+}
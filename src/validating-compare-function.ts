@@ -0,0 +1,79 @@
+import { CompareFunction } from './avl-tree';
+
+const validatingFunctions = new WeakSet<CompareFunction<any>>();
+
+// More than the height of any tree that fits in memory
+const MAX_BOUNDS = 64;
+
+/**
+ * Wraps a compare function to detect when it does not define a total ordering, which would silently corrupt a tree.
+ * Every comparison is checked for a numeric result, and for antisymmetry by also comparing the keys the other way
+ * around. Transitivity is spot-checked while descending a tree: the wrapper remembers the keys that the searched key
+ * was found to lie between, and checks every key met further down against those bounds. That catches a corrupted
+ * path before a lookup goes the wrong way, but not every inconsistency: only the keys on the path are compared.
+ * Each comparison costs a few calls of the wrapped function, plus one per key met before it in the same descent.
+ * @param compareFunction The compare function to validate
+ * @returns A compare function that throws an error naming the offending keys when an inconsistency is found
+ */
+export function validatingCompareFunction<K>(compareFunction: CompareFunction<K>): CompareFunction<K> {
+    if (validatingFunctions.has(compareFunction)) {
+        return compareFunction;
+    }
+
+    // The key of the current descent, with the keys it was found to be greater than (lower) and less than (upper)
+    let searchKey: K | undefined;
+    let lower: K[] = [];
+    let upper: K[] = [];
+
+    const compare = (a: K, b: K): number => {
+        const cmp = checkResult(compareFunction, a, b);
+        const reverseCmp = checkResult(compareFunction, b, a);
+        if (Math.sign(cmp) !== -Math.sign(reverseCmp)) {
+            throw new Error(
+                `Inconsistent compare function: comparing ${a} to ${b} gives ${cmp}, ` +
+                    `but comparing ${b} to ${a} gives ${reverseCmp}`
+            );
+        }
+
+        if (a !== searchKey || lower.length + upper.length >= MAX_BOUNDS) {
+            searchKey = a;
+            lower = [];
+            upper = [];
+        }
+        // lower < a <= b implies lower < b, and b <= a < upper implies b < upper
+        if (cmp <= 0) {
+            for (const bound of lower) {
+                if (checkResult(compareFunction, bound, b) >= 0) {
+                    throw new Error(
+                        `Inconsistent compare function: ${bound} < ${a} and ${a} <= ${b}, but not ${bound} < ${b}`
+                    );
+                }
+            }
+        }
+        if (cmp >= 0) {
+            for (const bound of upper) {
+                if (checkResult(compareFunction, b, bound) >= 0) {
+                    throw new Error(
+                        `Inconsistent compare function: ${b} <= ${a} and ${a} < ${bound}, but not ${b} < ${bound}`
+                    );
+                }
+            }
+        }
+        if (cmp > 0) {
+            lower.push(b);
+        } else if (cmp < 0) {
+            upper.push(b);
+        }
+        return cmp;
+    };
+    validatingFunctions.add(compare);
+    return compare;
+}
+
+function checkResult<K>(compareFunction: CompareFunction<K>, a: K, b: K): number {
+    const cmp = compareFunction(a, b);
+    if (typeof cmp !== 'number' || Number.isNaN(cmp)) {
+        throw new Error(`Invalid compare function result: comparing ${a} to ${b} gives ${cmp}, instead of a number`);
+    }
+    return cmp;
+}